@@ -1,9 +1,4 @@
-import perfPlugin from "./dist/plugins/perfPlugin.js";
-import asPlugin from "./dist/plugins/asPlugin.js";
+import plugin from "./dist/plugins/index.js";
 
-export default {
-  rules: {
-    ...perfPlugin.rules,
-    ...asPlugin.rules,
-  },
-};
+export { fromAsconfig, assemblyscriptTypes } from "./dist/plugins/index.js";
+export default plugin;
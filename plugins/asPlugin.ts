@@ -6,10 +6,19 @@
  * or violate best practices specific to the language.
  */
 import dontOmitElse from "./rules/dontOmitElse.js";
+import noClosureCapture from "./rules/noClosureCapture.js";
 import noConcatString from "./rules/noConcatString.js";
+import noDynamicPropertyAccess from "./rules/noDynamicPropertyAccess.js";
+import noImplicitNumericConversion from "./rules/noImplicitNumericConversion.js";
+import noObjectLiteralWithoutClass from "./rules/noObjectLiteralWithoutClass.js";
 import noSpread from "./rules/noSpread.js";
+import noUnionTypes from "./rules/noUnionTypes.js";
 import noUnsupportedKeyword from "./rules/noUnsupportedKeyword.js";
+import noUnsupportedSyntax from "./rules/noUnsupportedSyntax.js";
+import preferNativeNumericTypes from "./rules/preferNativeNumericTypes.js";
 import specifyType from "./rules/specifyType.js";
+import validDecorator from "./rules/validDecorator.js";
+import validOperatorOverload from "./rules/validOperatorOverload.js";
 
 export default {
   rules: {
@@ -18,5 +27,14 @@ export default {
     "no-unsupported-keyword": noUnsupportedKeyword,
     "specify-type": specifyType,
     "no-concat-string": noConcatString,
+    "no-closure-capture": noClosureCapture,
+    "no-unsupported-syntax": noUnsupportedSyntax,
+    "prefer-native-numeric-types": preferNativeNumericTypes,
+    "no-implicit-numeric-conversion": noImplicitNumericConversion,
+    "no-union-types": noUnionTypes,
+    "valid-decorator": validDecorator,
+    "valid-operator-overload": validOperatorOverload,
+    "no-object-literal-without-class": noObjectLiteralWithoutClass,
+    "no-dynamic-property-access": noDynamicPropertyAccess,
   },
 };
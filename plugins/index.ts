@@ -0,0 +1,133 @@
+/**
+ * AssemblyScript ESLint Plugin entry point
+ *
+ * Merges the rules of the language and performance plugins and exposes
+ * flat-config presets, so a single spread enables a vetted rule set:
+ *
+ *   export default [...assemblyscript.configs.recommended];
+ */
+import { TSESLint } from "@typescript-eslint/utils";
+import tseslint from "typescript-eslint";
+import asPlugin from "./asPlugin.js";
+import perfPlugin from "./perfPlugin.js";
+import parser from "./utils/parser.js";
+
+type FlatConfig = TSESLint.FlatConfig.Config;
+type RuleSeverity = TSESLint.FlatConfig.RuleLevel;
+
+const pluginName = "assemblyscript";
+
+const plugin = {
+  meta: {
+    name: "@schleifner/assemblyscript-eslint-plugin",
+  },
+  rules: {
+    ...perfPlugin.rules,
+    ...asPlugin.rules,
+  },
+  configs: {} as Record<"recommended" | "strict" | "performance", FlatConfig[]>,
+} satisfies TSESLint.FlatConfig.Plugin;
+
+// Prefix every rule of a plugin with the plugin name and apply the severity
+function withSeverity(
+  rules: Record<string, unknown>,
+  severity: RuleSeverity
+): FlatConfig["rules"] {
+  const result: NonNullable<FlatConfig["rules"]> = {};
+  for (const ruleName of Object.keys(rules)) {
+    result[`${pluginName}/${ruleName}`] = severity;
+  }
+  return result;
+}
+
+// Parser and plugin setup shared by every preset
+const baseConfig: FlatConfig = {
+  name: `${pluginName}/base`,
+  files: ["**/*.ts"],
+  languageOptions: {
+    parser,
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+      // Typed rules (e.g. no-concat-string) need type information, the parser
+      // gives files without a tsconfig the AssemblyScript standard library declarations
+      projectService: true,
+      // Decorated functions and variables like @inline function are
+      // invalid TypeScript, parse them instead of failing
+      allowInvalidAST: true,
+    },
+  },
+  plugins: {
+    [pluginName]: plugin,
+    "@typescript-eslint": tseslint.plugin,
+  },
+};
+
+// Core ESLint and typescript-eslint rules matching AssemblyScript restrictions
+const languageRules: FlatConfig["rules"] = {
+  // All statements with a sub-block must use curly braces, in particular one-liner if-statements
+  curly: ["error", "all"],
+  "@typescript-eslint/no-restricted-types": [
+    "error",
+    {
+      types: {
+        String: {
+          message: "use 'string' instead",
+          fixWith: "string",
+        },
+        Boolean: {
+          message: "use 'bool' instead",
+          fixWith: "bool",
+        },
+        undefined: { message: "not supported." },
+        object: { message: "not supported." },
+      },
+    },
+  ],
+  "@typescript-eslint/adjacent-overload-signatures": "error",
+};
+
+plugin.configs.recommended = [
+  baseConfig,
+  {
+    name: `${pluginName}/recommended`,
+    files: ["**/*.ts"],
+    rules: {
+      ...withSeverity(asPlugin.rules, "error"),
+      // Style and performance hints rather than compile errors
+      [`${pluginName}/dont-omit-else`]: "warn",
+      [`${pluginName}/no-concat-string`]: "warn",
+      [`${pluginName}/prefer-native-numeric-types`]: "warn",
+      ...languageRules,
+    },
+  },
+];
+
+plugin.configs.performance = [
+  baseConfig,
+  {
+    name: `${pluginName}/performance`,
+    files: ["**/*.ts"],
+    rules: withSeverity(perfPlugin.rules, "warn"),
+  },
+];
+
+plugin.configs.strict = [
+  baseConfig,
+  {
+    name: `${pluginName}/strict`,
+    files: ["**/*.ts"],
+    rules: {
+      ...withSeverity(plugin.rules, "error"),
+      ...languageRules,
+      "no-implicit-globals": "error",
+    },
+  },
+];
+
+export { fromAsconfig } from "./utils/asconfig.js";
+export type { AsconfigOptions, AsconfigConfig } from "./utils/asconfig.js";
+export type { AssemblyScriptSettings } from "./utils/settings.js";
+export { assemblyscriptTypes } from "./utils/types.js";
+
+export default plugin;
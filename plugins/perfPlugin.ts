@@ -5,11 +5,15 @@
  * in AssemblyScript code.
  */
 import arrayInitStyle from "./rules/arrayInitStyle.js";
+import noAllocationInLoop from "./rules/noAllocationInLoop.js";
 import noRepeatedMemberAccess from "./rules/memberAccess.js";
+import preferStaticArray from "./rules/preferStaticArray.js";
 
 export default {
   rules: {
     "array-init-style": arrayInitStyle,
+    "no-allocation-in-loop": noAllocationInLoop,
     "no-repeated-member-access": noRepeatedMemberAccess,
+    "prefer-static-array": preferStaticArray,
   },
 };
@@ -1,17 +1,44 @@
-import { ESLintUtils, AST_NODE_TYPES } from "@typescript-eslint/utils";
+import {
+  ESLintUtils,
+  AST_NODE_TYPES,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import { RuleFixer } from "@typescript-eslint/utils/ts-eslint";
 import createRule from "../utils/createRule.js";
+import {
+  getArrayType,
+  getInitialLength,
+  isArrayInitializer,
+  isFixedLengthUse,
+} from "../utils/arrays.js";
+import { getEnclosingFunction } from "../utils/nodes.js";
 
 /**
  * Rule: Array Initializer
  * Avoid using [] to initialize variables
  * [] will create a temporary object in data section.
+ * Covers variables, class fields, default parameters and returned values whose type
+ * is annotated as T[], Array<T> or StaticArray<T>. In the static-array mode, constant
+ * arrays whose length never changes are converted to StaticArray<T>.
  */
+
+type MessageIds =
+  | "preferArrayConstructor"
+  | "preferStaticArrayConstructor"
+  | "preferStaticArray";
+
+type Options = [
+  {
+    mode?: "array" | "static-array";
+  },
+];
+
 const arrayInitStyle: ESLintUtils.RuleModule<
-  "preferArrayConstructor",
-  [],
+  MessageIds,
+  Options,
   unknown,
   ESLintUtils.RuleListener
-> = createRule({
+> = createRule<Options, MessageIds>({
   name: "array-init-style",
   meta: {
     type: "problem",
@@ -22,36 +49,146 @@ const arrayInitStyle: ESLintUtils.RuleModule<
     messages: {
       preferArrayConstructor:
         "Please use new Array<{{ type }}>() to initialize an array",
+      preferStaticArrayConstructor:
+        "Please use new StaticArray<{{ type }}>(0) to initialize an empty static array",
+      preferStaticArray:
+        "The length of '{{ name }}' never changes, please use StaticArray<{{ type }}> instead",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          mode: {
+            type: "string",
+            enum: ["array", "static-array"],
+            description:
+              "'static-array' also converts constant arrays whose length never changes to StaticArray",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
-  defaultOptions: [],
-  create(context) {
+  defaultOptions: [{ mode: "array" }],
+  create(context, [options]) {
+    const { mode } = options as Required<Options[0]>;
+    const sourceCode = context.sourceCode;
+
+    // Report an empty array literal assigned to an annotated array type
+    function checkEmptyLiteral(
+      reportNode: TSESTree.Node,
+      typeAnnotation: TSESTree.TSTypeAnnotation | undefined,
+      value: TSESTree.Node | null | undefined
+    ) {
+      if (
+        !typeAnnotation ||
+        value?.type !== AST_NODE_TYPES.ArrayExpression ||
+        value.elements.length !== 0
+      ) {
+        return;
+      }
+      const arrayType = getArrayType(typeAnnotation.typeAnnotation);
+      if (!arrayType) {
+        return;
+      }
+      const elementType = sourceCode.getText(arrayType.elementType);
+      const replacement =
+        arrayType.kind === "Array"
+          ? `new Array<${elementType}>()`
+          : `new StaticArray<${elementType}>(0)`;
+      context.report({
+        node: reportNode,
+        messageId:
+          arrayType.kind === "Array"
+            ? "preferArrayConstructor"
+            : "preferStaticArrayConstructor",
+        data: {
+          type: elementType,
+        },
+        fix: (fixer) => fixer.replaceText(value, replacement),
+      });
+    }
+
+    // Convert a constant array to a StaticArray when it's only indexed and its length read,
+    // e.g. const table: i32[] = [1, 2, 3] or const buffer: u8[] = new Array<u8>(size)
+    function checkStaticArray(node: TSESTree.VariableDeclarator): boolean {
+      const typeAnnotation = node.id.typeAnnotation?.typeAnnotation;
+      const arrayType = typeAnnotation ? getArrayType(typeAnnotation) : null;
+      const init = node.init;
+      if (
+        !typeAnnotation ||
+        arrayType?.kind !== "Array" ||
+        node.parent.kind !== "const" ||
+        node.id.type !== AST_NODE_TYPES.Identifier ||
+        !isArrayInitializer(init)
+      ) {
+        return false;
+      }
+      const variable = sourceCode.getDeclaredVariables(node)[0];
+      const length = getInitialLength(init);
+      if (
+        !variable.references.every(
+          (reference) =>
+            reference.init ||
+            isFixedLengthUse(reference.identifier, length, sourceCode)
+        )
+      ) {
+        return false;
+      }
+
+      const elementType = sourceCode.getText(arrayType.elementType);
+      const staticType = `StaticArray<${elementType}>`;
+      context.report({
+        node,
+        messageId: "preferStaticArray",
+        data: { name: node.id.name, type: elementType },
+        fix(fixer: RuleFixer) {
+          const fixes = [fixer.replaceText(typeAnnotation, staticType)];
+          // Array literals keep their elements, constructors keep their length
+          if (init.type === AST_NODE_TYPES.NewExpression) {
+            const length = init.arguments[0]
+              ? sourceCode.getText(init.arguments[0])
+              : "0";
+            fixes.push(fixer.replaceText(init, `new ${staticType}(${length})`));
+          } else if (init.elements.length === 0) {
+            fixes.push(fixer.replaceText(init, `new ${staticType}(0)`));
+          }
+          return fixes;
+        },
+      });
+      return true;
+    }
+
+    function checkReturn(node: TSESTree.Node, value: TSESTree.Node | null) {
+      checkEmptyLiteral(node, getEnclosingFunction(node)?.returnType, value);
+    }
+
     return {
       VariableDeclarator(node) {
-        const typeAnnotation = node.id.typeAnnotation?.typeAnnotation;
-        if (
-          typeAnnotation?.type === AST_NODE_TYPES.TSArrayType &&
-          typeAnnotation.elementType?.type === AST_NODE_TYPES.TSTypeReference &&
-          node.init?.type === AST_NODE_TYPES.ArrayExpression &&
-          node.init.elements.length === 0
-        ) {
-          // Ensure node.init is not null before passing to fixer
-          const initNode = node.init;
-          const elementType = context.sourceCode.getText(
-            typeAnnotation.elementType.typeName
-          );
-          context.report({
-            node,
-            messageId: "preferArrayConstructor",
-            data: {
-              type: elementType,
-            },
-            fix(fixer) {
-              // initNode is guaranteed non-null here due to the outer check
-              return fixer.replaceText(initNode, `new Array<${elementType}>()`);
-            },
-          });
+        if (mode === "static-array" && checkStaticArray(node)) {
+          return;
+        }
+        checkEmptyLiteral(node, node.id.typeAnnotation, node.init);
+      },
+
+      PropertyDefinition(node) {
+        checkEmptyLiteral(node, node.typeAnnotation, node.value);
+      },
+
+      // Default values of parameters, e.g. function f(values: i32[] = [])
+      AssignmentPattern(node) {
+        if (node.left.type === AST_NODE_TYPES.Identifier) {
+          checkEmptyLiteral(node, node.left.typeAnnotation, node.right);
+        }
+      },
+
+      ReturnStatement(node) {
+        checkReturn(node, node.argument);
+      },
+
+      ArrowFunctionExpression(node) {
+        if (node.expression) {
+          checkReturn(node.body, node.body);
         }
       },
     };
@@ -1,37 +1,103 @@
-import { TSESTree, AST_NODE_TYPES } from "@typescript-eslint/utils";
-import { RuleListener, RuleModule } from "@typescript-eslint/utils/ts-eslint";
+import {
+  TSESTree,
+  AST_NODE_TYPES,
+  ESLintUtils,
+} from "@typescript-eslint/utils";
+import {
+  RuleFixer,
+  RuleListener,
+  RuleModule,
+  SourceCode,
+} from "@typescript-eslint/utils/ts-eslint";
+import ts from "typescript";
 import createRule from "../utils/createRule.js";
 
 /**
  * Rule: Dont Omit Else
  * Enforce using else block when if branch doesn't contain control flow statement.
+ * Branches count as terminating when every path through them ends in return, throw,
+ * break, continue or a call to an abort builtin like `unreachable()`, including nested
+ * if/else statements and switch statements.
  */
 
-// Helper function to check if a node will lead to early exit
-function isEarlyExitStatement(node: TSESTree.Node): boolean {
-  // Return true if the node will lead to early exit
+type MessageIds = "omittedElse" | "moveIntoElse";
+
+type Options = [
+  {
+    abortFunctions?: string[];
+    ignoreSideEffectOnly?: boolean;
+    ignoreLoopGuards?: boolean;
+    onlyIfFollowed?: boolean;
+  },
+];
+
+const loopTypes = new Set<AST_NODE_TYPES>([
+  AST_NODE_TYPES.ForStatement,
+  AST_NODE_TYPES.ForInStatement,
+  AST_NODE_TYPES.ForOfStatement,
+  AST_NODE_TYPES.WhileStatement,
+  AST_NODE_TYPES.DoWhileStatement,
+]);
+
+// Check if a branch only assigns a value or calls a function, e.g. if (a) count++;
+function isSideEffectOnly(node: TSESTree.Statement): boolean {
+  const statement =
+    node.type === AST_NODE_TYPES.BlockStatement && node.body.length === 1
+      ? node.body[0]
+      : node;
+  if (statement.type !== AST_NODE_TYPES.ExpressionStatement) {
+    return false;
+  }
+  const type = statement.expression.type;
   return (
-    node.type === AST_NODE_TYPES.ReturnStatement ||
-    node.type === AST_NODE_TYPES.ThrowStatement ||
-    node.type === AST_NODE_TYPES.BreakStatement ||
-    node.type === AST_NODE_TYPES.ContinueStatement
+    type === AST_NODE_TYPES.AssignmentExpression ||
+    type === AST_NODE_TYPES.UpdateExpression ||
+    type === AST_NODE_TYPES.CallExpression
   );
 }
-// Check if statement or block doesn't contain early exit statement
-function hasTerminatingStatement(node: TSESTree.Node) {
-  // Handle different statement types
-  if (node.type === AST_NODE_TYPES.BlockStatement) {
-    // For block statements, check the last statement in the block
-    const lastStatement = node.body.length > 0 ? node.body.at(-1) : null;
-    return lastStatement ? isEarlyExitStatement(lastStatement) : false;
-  } else {
-    // For single statements (no curly braces), check the statement directly
-    return isEarlyExitStatement(node);
+
+// Check if an if-statement is the first statement of a loop body
+function isLoopGuard(node: TSESTree.IfStatement): boolean {
+  const parent = node.parent;
+  if (loopTypes.has(parent.type)) {
+    return true;
   }
+  return (
+    parent.type === AST_NODE_TYPES.BlockStatement &&
+    parent.body[0] === node &&
+    loopTypes.has(parent.parent.type)
+  );
 }
 
-const dontOmitElse: RuleModule<"omittedElse", [], unknown, RuleListener> =
-  createRule({
+// Code inserted after the if branch, which needs a semicolon if ASI left it out, e.g. if (a) foo()
+function getElse(
+  node: TSESTree.IfStatement,
+  sourceCode: Readonly<SourceCode>,
+  block: string
+): string {
+  const last = sourceCode.getLastToken(node.consequent);
+  const semicolon =
+    node.consequent.type !== AST_NODE_TYPES.BlockStatement &&
+    last?.value !== ";";
+  return `${semicolon ? ";" : ""} else ${block}`;
+}
+
+// Statements following the if-statement in the same block
+function getFollowingStatements(node: TSESTree.IfStatement): TSESTree.Node[] {
+  const parent = node.parent;
+  const body =
+    parent.type === AST_NODE_TYPES.BlockStatement ||
+    parent.type === AST_NODE_TYPES.Program
+      ? parent.body
+      : parent.type === AST_NODE_TYPES.SwitchCase
+        ? parent.consequent
+        : [];
+  const index = body.indexOf(node as TSESTree.ProgramStatement);
+  return index === -1 ? [] : body.slice(index + 1);
+}
+
+const dontOmitElse: RuleModule<MessageIds, Options, unknown, RuleListener> =
+  createRule<Options, MessageIds>({
     name: "dont-omit-else",
     meta: {
       type: "suggestion",
@@ -39,14 +105,63 @@ const dontOmitElse: RuleModule<"omittedElse", [], unknown, RuleListener> =
         description:
           "Enforce else block unless if branch contains control flow",
       },
+      fixable: "code",
+      hasSuggestions: true,
       messages: {
         omittedElse:
           "Omitted else block is not recommended unless if branch contains early return statement.",
+        moveIntoElse:
+          "Move the code following the if-statement into the else block. This changes behavior if the if branch runs.",
       },
-      schema: [],
+      schema: [
+        {
+          type: "object",
+          properties: {
+            abortFunctions: {
+              type: "array",
+              items: { type: "string" },
+              uniqueItems: true,
+              description:
+                "Functions which never return, calls to them terminate a branch",
+            },
+            ignoreSideEffectOnly: {
+              type: "boolean",
+              description:
+                "Ignore if-statements whose branch is a single assignment or call",
+            },
+            ignoreLoopGuards: {
+              type: "boolean",
+              description: "Ignore if-statements at the top of a loop body",
+            },
+            onlyIfFollowed: {
+              type: "boolean",
+              description:
+                "Only require an else block when more code follows the if-statement in the same block",
+            },
+          },
+          additionalProperties: false,
+        },
+      ],
     },
-    defaultOptions: [],
-    create(context) {
+    defaultOptions: [
+      {
+        abortFunctions: ["abort", "unreachable"],
+        ignoreSideEffectOnly: false,
+        ignoreLoopGuards: false,
+        onlyIfFollowed: false,
+      },
+    ],
+    create(context, [options]) {
+      const {
+        abortFunctions: abortFunctionNames,
+        ignoreSideEffectOnly,
+        ignoreLoopGuards,
+        onlyIfFollowed,
+      } = options as Required<Options[0]>;
+      const abortFunctions = new Set(abortFunctionNames);
+      const parserServices = ESLintUtils.getParserServices(context, true);
+      const sourceCode = context.sourceCode;
+
       // Check if the statement is part of an else-if chain
       function isElseIfChain(node: TSESTree.IfStatement) {
         const ancestors = context.sourceCode.getAncestors(node);
@@ -57,6 +172,103 @@ const dontOmitElse: RuleModule<"omittedElse", [], unknown, RuleListener> =
         );
       }
 
+      // Check if a call never returns, by name or by a `never` return type
+      function isAbortCall(node: TSESTree.Expression): boolean {
+        if (node.type !== AST_NODE_TYPES.CallExpression) {
+          return false;
+        }
+        if (
+          node.callee.type === AST_NODE_TYPES.Identifier &&
+          abortFunctions.has(node.callee.name)
+        ) {
+          return true;
+        }
+        if (!parserServices.program) {
+          return false;
+        }
+        const checker = parserServices.program.getTypeChecker();
+        const signature = checker.getResolvedSignature(
+          parserServices.esTreeNodeToTSNodeMap.get(node)
+        );
+        const returnType =
+          signature && checker.getReturnTypeOfSignature(signature);
+        return Boolean(returnType && returnType.flags & ts.TypeFlags.Never);
+      }
+
+      // Check if every path through a switch statement terminates
+      function isTerminatingSwitch(node: TSESTree.SwitchStatement): boolean {
+        if (!node.cases.some((switchCase) => switchCase.test === null)) {
+          return false;
+        }
+        // Empty cases fall through to the next one, the last case must not fall out
+        return (
+          node.cases.at(-1)!.consequent.length > 0 &&
+          node.cases.every(
+            (switchCase) =>
+              switchCase.consequent.length === 0 ||
+              switchCase.consequent.some((statement) =>
+                isTerminating(statement, false)
+              )
+          )
+        );
+      }
+
+      // Check if a statement never completes normally. An unlabeled break only
+      // leaves the if branch when it's not inside a switch of the branch.
+      function isTerminating(
+        node: TSESTree.Statement,
+        breakTerminates: boolean
+      ): boolean {
+        switch (node.type) {
+          case AST_NODE_TYPES.ReturnStatement:
+          case AST_NODE_TYPES.ThrowStatement:
+          case AST_NODE_TYPES.ContinueStatement:
+            return true;
+          case AST_NODE_TYPES.BreakStatement:
+            return breakTerminates || node.label !== null;
+          case AST_NODE_TYPES.BlockStatement:
+            return node.body.some((statement) =>
+              isTerminating(statement, breakTerminates)
+            );
+          case AST_NODE_TYPES.IfStatement:
+            return (
+              node.alternate !== null &&
+              isTerminating(node.consequent, breakTerminates) &&
+              isTerminating(node.alternate, breakTerminates)
+            );
+          case AST_NODE_TYPES.SwitchStatement:
+            return isTerminatingSwitch(node);
+          case AST_NODE_TYPES.ExpressionStatement:
+            return isAbortCall(node.expression);
+          default:
+            return false;
+        }
+      }
+
+      // Move the statements following the if-statement into a new else block
+      function getSuggestions(node: TSESTree.IfStatement) {
+        const following = getFollowingStatements(node);
+        const last = following.at(-1);
+        if (!last) {
+          return [];
+        }
+        const indent = " ".repeat(node.loc.start.column);
+        const code = sourceCode.text
+          .slice(node.range[1], last.range[1])
+          .trim()
+          .replaceAll(`\n${indent}`, `\n${indent}  `);
+        return [
+          {
+            messageId: "moveIntoElse" as const,
+            fix: (fixer: RuleFixer) =>
+              fixer.replaceTextRange(
+                [node.range[1], last.range[1]],
+                getElse(node, sourceCode, `{\n${indent}  ${code}\n${indent}}`)
+              ),
+          },
+        ];
+      }
+
       return {
         IfStatement(node) {
           // Skip if this is already an else-if
@@ -64,14 +276,29 @@ const dontOmitElse: RuleModule<"omittedElse", [], unknown, RuleListener> =
             return;
           }
           const hasElse = node.alternate !== null;
-          const ifBlockEndsWithControlFlow = hasTerminatingStatement(
-            node.consequent
+          const ifBlockEndsWithControlFlow = isTerminating(
+            node.consequent,
+            true
           );
+          // Exemptions configured by the options
+          if (
+            (ignoreSideEffectOnly && isSideEffectOnly(node.consequent)) ||
+            (ignoreLoopGuards && isLoopGuard(node)) ||
+            (onlyIfFollowed && getFollowingStatements(node).length === 0)
+          ) {
+            return;
+          }
           // Report error if no else and no control flow
           if (!hasElse && !ifBlockEndsWithControlFlow) {
             context.report({
               node,
               messageId: "omittedElse",
+              fix: (fixer) =>
+                fixer.insertTextAfter(
+                  node.consequent,
+                  getElse(node, sourceCode, "{}")
+                ),
+              suggest: getSuggestions(node),
             });
           }
         },
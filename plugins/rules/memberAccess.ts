@@ -1,8 +1,103 @@
-import { TSESTree, AST_NODE_TYPES } from "@typescript-eslint/utils";
-import { Scope } from "@typescript-eslint/utils/ts-eslint";
+import {
+  ASTUtils,
+  ESLintUtils,
+  TSESTree,
+  AST_NODE_TYPES,
+} from "@typescript-eslint/utils";
+import {
+  CodePathSegment,
+  ReportFixFunction,
+  RuleFix,
+  RuleListener,
+  Scope,
+} from "@typescript-eslint/utils/ts-eslint";
+import ts from "typescript";
 import createRule from "../utils/createRule.js";
 
-const noRepeatedMemberAccess = createRule({
+// Words that can be property names but not variable names
+const reservedWords = new Set(
+  (
+    "break case catch class const continue debugger default delete do " +
+    "else enum export extends false finally for function if implements " +
+    "import in instanceof interface let new null package private " +
+    "protected public return static super switch this throw true try " +
+    "typeof var void while with yield"
+  ).split(" ")
+);
+
+// Property names of a member chain and the expressions evaluating each part of it
+interface ChainInfo {
+  properties: string[];
+  // Empty if the chain doesn't start with an identifier or `this`
+  nodes: TSESTree.Node[];
+}
+
+// Skip member access and non-null assertions to get the root of a chain
+function getChainBase(node: TSESTree.Node): TSESTree.Node {
+  let current = node;
+  while (
+    current.type === AST_NODE_TYPES.MemberExpression ||
+    current.type === AST_NODE_TYPES.TSNonNullExpression
+  ) {
+    current =
+      current.type === AST_NODE_TYPES.MemberExpression
+        ? current.object
+        : current.expression;
+  }
+  return current;
+}
+
+// Values of these types have no properties which could be modified by a call
+const immutableTypeFlags =
+  ts.TypeFlags.StringLike |
+  ts.TypeFlags.NumberLike |
+  ts.TypeFlags.BigIntLike |
+  ts.TypeFlags.BooleanLike |
+  ts.TypeFlags.EnumLike |
+  ts.TypeFlags.Null |
+  ts.TypeFlags.Undefined |
+  ts.TypeFlags.Void;
+
+// Identifies the value a chain evaluates to along the code paths
+// Accesses with the same key are guaranteed to see the same value
+interface Version {
+  key: string;
+  // Start offset of the latest write the value depends on, -1 if none
+  lastWrite: number;
+  // Start offset of the latest code path merge the value depends on, -1 if none
+  lastMerge: number;
+}
+
+// Check if a chain like ["this", "x"] matches an entry of the ignore option
+// Entries without dots are base identifiers, others are patterns where `*` matches one property
+function isIgnoredChain(properties: string[], ignore: string[]): boolean {
+  return ignore.some((entry) => {
+    if (!entry.includes(".")) {
+      return properties[0] === entry;
+    }
+    const segments = entry.split(".");
+    return (
+      segments.length === properties.length &&
+      segments.every(
+        (segment, index) => segment === "*" || segment === properties[index]
+      )
+    );
+  });
+}
+
+type Options = [
+  {
+    minOccurrences?: number;
+    minDepth?: number;
+    ignore?: string[];
+    loopsOnly?: boolean;
+  },
+];
+
+const noRepeatedMemberAccess = createRule<
+  Options,
+  "repeatedAccess" | "extractVariable"
+>({
   name: "no-repeated-member-access",
   meta: {
     type: "suggestion",
@@ -10,118 +105,166 @@ const noRepeatedMemberAccess = createRule({
       description:
         "Optimize repeated member access patterns by extracting variables",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          minOccurrences: {
+            type: "integer",
+            minimum: 2,
+            description:
+              "Minimum number of accesses before a chain is reported",
+          },
+          minDepth: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Minimum number of property accesses in a chain (a.b has 1, a.b.c has 2)",
+          },
+          ignore: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Base identifiers (e.g. Math, this) or chain patterns (e.g. this.*) to ignore",
+          },
+          loopsOnly: {
+            type: "boolean",
+            description: "Only count accesses inside loops",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
     fixable: "code",
+    hasSuggestions: true,
     messages: {
       repeatedAccess:
         "Member chain '{{ chain }}' is accessed multiple times. Extract to variable.",
+      extractVariable: "Extract '{{ chain }}' to variable '{{ name }}'.",
     },
   },
-  defaultOptions: [],
+  defaultOptions: [
+    {
+      minOccurrences: 2,
+      minDepth: 1,
+      ignore: [],
+      loopsOnly: false,
+    },
+  ],
 
-  create(context) {
+  create(context, [options]) {
     const sourceCode = context.sourceCode;
-
-    // Track which chains have already been reported to avoid duplicate reports
-    const reportedChains = new Set<string>();
+    // Defaults are merged into the options by createRule
+    const { minOccurrences, minDepth, ignore, loopsOnly } = options as Required<
+      Options[0]
+    >;
+    // Type information is optional, it refines which chains a call can modify
+    const parserServices = ESLintUtils.getParserServices(context, true);
+
+    // Track the loop nesting level, only used with the loopsOnly option
+    let loopDepth = 0;
+
+    // Track which groups have already been reported to avoid duplicate reports
+    const reportedGroups = new Set<AccessGroup>();
+    // Reports are emitted at the end of the program, when all occurrences are known
+    const pendingReports: PendingReport[] = [];
+    // Variable names already generated by fixes, per scope
+    const generatedNamesMap = new WeakMap<Scope.Scope, Set<string>>();
 
     // Tree-based approach for storing member access chains
     // Each node represents a property in the chain (e.g., a -> b -> c for a.b.c)
     class ChainNode {
-      private count: number = 0;
-      private modified: boolean = false;
-      private parent?: ChainNode;
       private children: Map<string, ChainNode> = new Map();
-
-      constructor(parent?: ChainNode) {
-        this.parent = parent;
-        this.modified = this.parent?.modified || false;
-      }
-
-      get getCount(): number {
-        return this.count;
-      }
-
-      get isModified(): boolean {
-        return this.modified;
-      }
+      // Accesses grouped by the version of the value they see
+      private groups: Map<string, AccessGroup> = new Map();
 
       get getChildren(): Map<string, ChainNode> {
         return this.children;
       }
 
-      incrementCount(): void {
-        this.count++;
+      get getGroups(): Map<string, AccessGroup> {
+        return this.groups;
+      }
+
+      // Record an access, occurrence is the expression evaluating this chain if it can be extracted
+      // Uncounted accesses don't make a chain reported but are replaced by the fix
+      // The count is the most accesses on one code path, e.g. 1 for c ? a.b : a.b
+      addAccess(
+        version: Version,
+        counted: boolean,
+        segments: string[],
+        occurrence?: TSESTree.Node
+      ): void {
+        let group = this.groups.get(version.key);
+        if (!group) {
+          group = {
+            count: 0,
+            occurrences: [],
+            paths: [],
+            lastWrite: version.lastWrite,
+            lastMerge: version.lastMerge,
+          };
+          this.groups.set(version.key, group);
+        }
+        if (counted) {
+          let count = 1;
+          for (const path of group.paths) {
+            if (path.segments.some((from) => canReachAny(from, segments))) {
+              count = Math.max(count, path.count + 1);
+            }
+          }
+          group.paths.push({ segments, count });
+          group.count = Math.max(group.count, count);
+        }
+        if (occurrence) {
+          group.occurrences.push(occurrence);
+        }
       }
 
       // Get or create child node
       getOrCreateChild(childName: string): ChainNode {
         if (!this.children.has(childName)) {
-          this.children.set(childName, new ChainNode(this));
+          this.children.set(childName, new ChainNode());
         }
         return this.children.get(childName)!;
       }
-
-      // Mark this node and all its descendants as modified
-      markAsModified(): void {
-        this.modified = true;
-        for (const child of this.children.values()) {
-          child.markAsModified();
-        }
-      }
     }
 
     // Root node for the tree (per scope)
     class ChainTree {
       private root: ChainNode = new ChainNode();
 
-      // Visitor function to navigate through property chain
-      private visitChainPath(
-        properties: string[],
-        process: (node: ChainNode) => void
-      ): ChainNode {
+      // Insert a chain path into the tree and count an access for every part of it
+      // Occurrences are remembered so that the fixer can replace them
+      insertChain(
+        chain: ChainInfo,
+        versions: Version[],
+        counted: boolean,
+        segments: string[]
+      ): void {
+        const { properties, nodes } = chain;
         let current = this.root;
-
-        // Navigate/process node in the tree
-        for (const prop of properties) {
-          const child = current.getOrCreateChild(prop);
-          current = child;
-          process(current);
+        for (const [index, prop] of properties.entries()) {
+          current = current.getOrCreateChild(prop);
+          current.addAccess(versions[index], counted, segments, nodes[index]);
         }
-
-        return current;
-      }
-
-      // Insert a chain path into the tree and increment counts
-      insertChain(properties: string[]): void {
-        this.visitChainPath(properties, (node) => {
-          node.incrementCount();
-        });
-      }
-
-      // Mark a chain and its descendants as modified
-      markChainAsModified(properties: string[]): void {
-        const targetNode = this.visitChainPath(properties, () => {});
-
-        // Mark this node and all descendants as modified
-        targetNode.markAsModified();
       }
 
       // Find any valid chain that meets the minimum occurrence threshold
       findValidChains() {
-        const validChains: Array<{ chain: string }> = [];
+        const validChains: Array<{ chain: string; group: AccessGroup }> = [];
 
         const dfs = (node: ChainNode, pathArray: string[]) => {
-          // Only consider chains with more than one segment (has dots)
-          if (pathArray.length > 1 && !node.isModified && node.getCount >= 2) {
-            validChains.push({
-              chain: pathArray.join("."),
-            });
-          }
-
-          // Stop traversing if this node is modified
-          if (node.isModified) {
-            return;
+          // Only consider chains with enough segments (pathArray includes the base)
+          if (
+            pathArray.length > minDepth &&
+            !isIgnoredChain(pathArray, ignore)
+          ) {
+            for (const group of node.getGroups.values()) {
+              if (group.count >= minOccurrences) {
+                validChains.push({ chain: pathArray.join("."), group });
+              }
+            }
           }
 
           // Recursively traverse children
@@ -138,6 +281,23 @@ const noRepeatedMemberAccess = createRule({
       }
     }
 
+    // Accesses of a chain which see the same value
+    interface AccessGroup {
+      count: number;
+      occurrences: TSESTree.Node[];
+      // Code path segments of each counted access and the most accesses on a path up to it
+      paths: Array<{ segments: string[]; count: number }>;
+      lastWrite: number;
+      lastMerge: number;
+    }
+
+    interface PendingReport {
+      node: TSESTree.Node;
+      chain: string;
+      group: AccessGroup;
+      scope: Scope.Scope;
+    }
+
     // Stores mapping of scope to ChainTree
     const scopeDataMap = new WeakMap<Scope.Scope, ChainTree>();
 
@@ -149,10 +309,12 @@ const noRepeatedMemberAccess = createRule({
     }
 
     // This function generates ["a", "b", "c"] from a.b.c (just the property names)
+    // together with the expressions a, a.b and a.b.c evaluating each part of the chain
     // The tree structure will handle the hierarchy automatically
     // eslint-disable-next-line unicorn/consistent-function-scoping
-    function analyzeChain(node: TSESTree.MemberExpression): string[] {
+    function analyzeChain(node: TSESTree.MemberExpression): ChainInfo {
       const properties: string[] = []; // AST is iterated in reverse order
+      const nodes: TSESTree.Node[] = [];
       let current: TSESTree.Node = node; // Current node in traversal
 
       // Collect property chain (reverse order)
@@ -164,6 +326,7 @@ const noRepeatedMemberAccess = createRule({
         } else {
           // Handle dot notation like obj.prop
           properties.push(current.property.name);
+          nodes.push(current);
         }
 
         current = current.object; // Move to parent object
@@ -178,31 +341,561 @@ const noRepeatedMemberAccess = createRule({
       // Example: For a.b.c, the base object is "a"
       if (current.type === AST_NODE_TYPES.Identifier) {
         properties.push(current.name); // Add base object name
+        nodes.push(current);
       } else if (current.type === AST_NODE_TYPES.ThisExpression) {
         properties.push("this");
-      } // ignore other patterns
+        nodes.push(current);
+      } else {
+        // ignore other patterns, such chains can't be extracted
+        nodes.length = 0;
+      }
 
       // Reverse to get forward order: ["a", "b", "c"]
       properties.reverse();
-      return properties;
+      nodes.reverse();
+      return { properties, nodes };
     }
 
-    function setModifiedFlag(chain: string[], node: TSESTree.Node) {
-      const scope = sourceCode.getScope(node);
-      const chainTree = getChainTree(scope);
-      chainTree.markChainAsModified(chain);
+    // Loops and conditionals evaluate some of their children repeatedly or not at all
+    // Hoisting a chain out of such a child changes when it is evaluated
+    // eslint-disable-next-line unicorn/consistent-function-scoping
+    function isEvaluatedOnce(child: TSESTree.Node, parent: TSESTree.Node) {
+      switch (parent.type) {
+        case AST_NODE_TYPES.ForStatement: {
+          return child === parent.init;
+        }
+        case AST_NODE_TYPES.ForInStatement:
+        case AST_NODE_TYPES.ForOfStatement: {
+          return child === parent.right;
+        }
+        case AST_NODE_TYPES.WhileStatement:
+        case AST_NODE_TYPES.DoWhileStatement:
+        case AST_NODE_TYPES.SwitchCase: {
+          return false;
+        }
+        case AST_NODE_TYPES.IfStatement:
+        case AST_NODE_TYPES.ConditionalExpression: {
+          return child === parent.test;
+        }
+        case AST_NODE_TYPES.SwitchStatement: {
+          return child === parent.discriminant;
+        }
+        case AST_NODE_TYPES.LogicalExpression: {
+          return child === parent.left;
+        }
+        case AST_NODE_TYPES.AssignmentExpression: {
+          // Logical assignments like a ||= b only conditionally evaluate b
+          return (
+            !["&&=", "||=", "??="].includes(parent.operator) ||
+            child === parent.left
+          );
+        }
+        default: {
+          return true;
+        }
+      }
+    }
+
+    // Get the node whose statements belong directly to the scope
+    // eslint-disable-next-line unicorn/consistent-function-scoping
+    function getStatementContainer(scope: Scope.Scope): TSESTree.Node | null {
+      const block = scope.block;
+      switch (block.type) {
+        case AST_NODE_TYPES.Program:
+        case AST_NODE_TYPES.BlockStatement: {
+          return block;
+        }
+        case AST_NODE_TYPES.FunctionDeclaration:
+        case AST_NODE_TYPES.FunctionExpression:
+        case AST_NODE_TYPES.ArrowFunctionExpression: {
+          return block.body.type === AST_NODE_TYPES.BlockStatement
+            ? block.body
+            : null;
+        }
+        default: {
+          return null;
+        }
+      }
+    }
+
+    // Find the statement before which the chain can be declared
+    // hoistable is false if the first access is evaluated conditionally or repeatedly
+    function findInsertionPoint(
+      scope: Scope.Scope,
+      firstOccurrence: TSESTree.Node
+    ): { statement: TSESTree.Node; hoistable: boolean } | null {
+      const container = getStatementContainer(scope);
+      let hoistable = true;
+      let current = firstOccurrence;
+      while (current.parent) {
+        const parent: TSESTree.Node = current.parent;
+        // Scopes like "for" and "switch" don't own a statement list, declare in front of them instead
+        const isScopeStatement =
+          current === scope.block &&
+          (parent.type === AST_NODE_TYPES.Program ||
+            parent.type === AST_NODE_TYPES.BlockStatement);
+        if (parent === container || isScopeStatement) {
+          return { statement: current, hoistable };
+        }
+        hoistable &&= isEvaluatedOnce(current, parent);
+        current = parent;
+      }
+      return null;
+    }
+
+    // Derive a variable name from the last property which doesn't collide with
+    // variables of the scope, its ancestors or any name referenced inside the scope
+    function getVariableName(scope: Scope.Scope, property: string): string {
+      const takenNames = new Set(
+        scope.through.map((ref) => ref.identifier.name)
+      );
+      for (
+        let current: Scope.Scope | null = scope;
+        current;
+        current = current.upper
+      ) {
+        for (const name of current.set.keys()) {
+          takenNames.add(name);
+        }
+      }
+      const generatedNames = generatedNamesMap.get(scope) ?? new Set<string>();
+      generatedNamesMap.set(scope, generatedNames);
+
+      const baseName = reservedWords.has(property)
+        ? `${property}Value`
+        : property;
+      let name = baseName;
+      for (
+        let suffix = 2;
+        takenNames.has(name) || generatedNames.has(name);
+        suffix++
+      ) {
+        name = `${baseName}${suffix}`;
+      }
+      generatedNames.add(name);
+      return name;
+    }
+
+    // The base variable must be declared before the statement we insert in front of
+    function isBaseDeclaredBefore(
+      scope: Scope.Scope,
+      base: TSESTree.Node,
+      statement: TSESTree.Node
+    ): boolean {
+      if (base.type !== AST_NODE_TYPES.Identifier) {
+        return true;
+      }
+      const variable = scope.references.find(
+        (ref) => ref.identifier === base
+      )?.resolved;
+      return (
+        variable?.defs.every((def) => def.name.range[0] < statement.range[0]) ??
+        true
+      );
+    }
+
+    // Check if a chain starts at `this` or at a variable declared at module level,
+    // which calls can modify without receiving them, e.g. reset() replacing a global state
+    function isModuleLevelBase(base: TSESTree.Node): boolean {
+      if (base.type === AST_NODE_TYPES.ThisExpression) {
+        return true;
+      }
+      const variable =
+        base.type === AST_NODE_TYPES.Identifier
+          ? ASTUtils.findVariable(sourceCode.getScope(base), base)
+          : null;
+      return variable?.scope.block.type === AST_NODE_TYPES.Program;
+    }
+
+    function reportChain(report: PendingReport) {
+      const { node, chain, group, scope } = report;
+      const occurrences = group.occurrences;
+      const data = { chain };
+      const firstOccurrence = occurrences[0];
+      const insertionPoint =
+        firstOccurrence && findInsertionPoint(scope, firstOccurrence);
+      if (
+        !insertionPoint ||
+        // A write inside the statement happens after the hoisted declaration
+        group.lastWrite >= insertionPoint.statement.range[0] ||
+        !isBaseDeclaredBefore(
+          scope,
+          getChainBase(firstOccurrence),
+          insertionPoint.statement
+        )
+      ) {
+        context.report({ node, messageId: "repeatedAccess", data });
+        return;
+      }
+
+      const { statement } = insertionPoint;
+      // A code path merge inside the statement (e.g. a loop) might carry other values,
+      // a call between the accesses might change the module-level state of the chain
+      const lastOccurrence = occurrences.at(-1)!;
+      const crossesCall =
+        isModuleLevelBase(getChainBase(firstOccurrence)) &&
+        unboundedCalls.some(
+          (end) => end > statement.range[0] && end <= lastOccurrence.range[0]
+        );
+      const hoistable =
+        insertionPoint.hoistable &&
+        group.lastMerge < statement.range[0] &&
+        !crossesCall;
+      const name = getVariableName(scope, chain.split(".").at(-1)!);
+      const chainText = sourceCode.getText(firstOccurrence);
+      // Keep the indentation of the statement if it starts its own line
+      const linePrefix = sourceCode.lines[statement.loc.start.line - 1].slice(
+        0,
+        statement.loc.start.column
+      );
+      const declaration = /^\s*$/.test(linePrefix)
+        ? `const ${name} = ${chainText};\n${linePrefix}`
+        : `const ${name} = ${chainText}; `;
+      const fix = (fixer: Parameters<ReportFixFunction>[0]): RuleFix[] => [
+        fixer.insertTextBefore(statement, declaration),
+        ...occurrences.map((occurrence) => fixer.replaceText(occurrence, name)),
+      ];
+
+      if (hoistable) {
+        context.report({ node, messageId: "repeatedAccess", data, fix });
+      } else {
+        context.report({
+          node,
+          messageId: "repeatedAccess",
+          data,
+          suggest: [
+            { messageId: "extractVariable", data: { chain, name }, fix },
+          ],
+        });
+      }
+    }
+
+    // Flow-sensitive tracking of writes
+    // Every code path segment maps chain keys to the version of their latest write
+    // Keys are chains like "a.b" (the chain and its descendants are written) or
+    // "a.b.*" (only descendants are written, e.g. by a.b.update())
+    const segmentStates = new Map<string, Map<string, number>>();
+    const endedSegments = new Set<string>();
+    // Segments of the current traversal position, per function
+    const currentSegmentsStack: Array<Set<string>> = [];
+    // Where each version was created, to find writes and merges inside a statement
+    const versionOrigins = new Map<number, { pos: number; isWrite: boolean }>();
+    let versionCounter = 0;
+    const loopWritesCache = new WeakMap<TSESTree.Node, string[]>();
+    const segmentsById = new Map<string, CodePathSegment>();
+    const reachableCache = new Map<string, boolean>();
+
+    // Check if a path leads from a segment to one of the other segments, or they are the same
+    function canReachAny(from: string, targets: string[]): boolean {
+      return targets.some((target) => {
+        const cacheKey = `${from}>${target}`;
+        let reachable = reachableCache.get(cacheKey);
+        if (reachable === undefined) {
+          // Loop back edges lead to segments which haven't started yet
+          const visited = new Set<string>();
+          const pending = [segmentsById.get(target)!];
+          while (pending.length > 0 && !visited.has(from)) {
+            const segment = pending.pop()!;
+            if (!visited.has(segment.id)) {
+              visited.add(segment.id);
+              pending.push(...segment.prevSegments);
+            }
+          }
+          reachable = visited.has(from);
+          reachableCache.set(cacheKey, reachable);
+        }
+        return reachable;
+      });
+    }
+
+    function createVersion(pos: number, isWrite: boolean): number {
+      versionCounter++;
+      versionOrigins.set(versionCounter, { pos, isWrite });
+      return versionCounter;
+    }
+
+    function getCurrentStates(): Array<Map<string, number>> {
+      return [...currentSegmentsStack.at(-1)!].map(
+        (id) => segmentStates.get(id)!
+      );
+    }
+
+    // Keys whose versions determine the value of the chain, e.g. for a.b.c:
+    // "a", "a.*", "a.b", "a.b.*", "a.b.c"
+    // eslint-disable-next-line unicorn/consistent-function-scoping
+    function getVersionKeys(properties: string[]): string[] {
+      const keys: string[] = [];
+      for (let index = 0; index < properties.length; index++) {
+        const prefix = properties.slice(0, index + 1).join(".");
+        keys.push(prefix);
+        if (index < properties.length - 1) {
+          keys.push(`${prefix}.*`);
+        }
+      }
+      return keys;
+    }
+
+    function getVersion(properties: string[]): Version {
+      const keys = getVersionKeys(properties);
+      const candidates = getCurrentStates().map((state) =>
+        keys.map((key) => state.get(key) ?? 0)
+      );
+      const ids = candidates[0];
+      const key = ids.join(",");
+      // Different values in simultaneously active segments, never group such accesses
+      if (candidates.some((candidate) => candidate.join(",") !== key)) {
+        const version = createVersion(-1, false);
+        return { key: `${version}!`, lastWrite: -1, lastMerge: -1 };
+      }
+      let lastWrite = -1;
+      let lastMerge = -1;
+      for (const id of ids) {
+        const origin = versionOrigins.get(id);
+        if (origin?.isWrite) {
+          lastWrite = Math.max(lastWrite, origin.pos);
+        } else if (origin) {
+          lastMerge = Math.max(lastMerge, origin.pos);
+        }
+      }
+      return { key, lastWrite, lastMerge };
+    }
+
+    // Record writes in all segments of the current traversal position
+    function applyWrites(keys: string[], node: TSESTree.Node) {
+      if (keys.length === 0) {
+        return;
+      }
+      const version = createVersion(node.range[0], true);
+      for (const state of getCurrentStates()) {
+        for (const key of keys) {
+          state.set(key, version);
+        }
+      }
+    }
+
+    // Get the key of an expression which can be the base of a chain
+    function getChainKey(node: TSESTree.Node): string | null {
+      let current = node;
+      while (current.type === AST_NODE_TYPES.TSNonNullExpression) {
+        current = current.expression;
+      }
+      switch (current.type) {
+        case AST_NODE_TYPES.Identifier: {
+          return current.name;
+        }
+        case AST_NODE_TYPES.ThisExpression: {
+          return "this";
+        }
+        case AST_NODE_TYPES.MemberExpression: {
+          // Example: writing arr[i] modifies the elements "arr.*"
+          if (current.computed) {
+            const objectKey = getChainKey(current.object);
+            return objectKey === null ? null : `${objectKey}.*`;
+          }
+          return analyzeChain(current).properties.join(".");
+        }
+        default: {
+          return null;
+        }
+      }
+    }
+
+    // A call can modify properties of objects passed to it
+    // With type information, values of primitive types are known to be unaffected
+    function getReachableKeys(node: TSESTree.Node): string[] {
+      const key = getChainKey(node);
+      if (key === null) {
+        return [];
+      }
+      if (
+        parserServices.program &&
+        parserServices.getTypeAtLocation(node).flags & immutableTypeFlags
+      ) {
+        return [];
+      }
+      return [`${key}.*`];
+    }
+
+    // End offsets of calls which might modify module-level variables or `this`
+    const unboundedCalls: number[] = [];
+
+    // Functions declared in declaration files can't reach the variables of this module,
+    // unless they are passed a callback. Without type information any call might.
+    function isUnboundedCall(node: TSESTree.CallExpression): boolean {
+      if (
+        !parserServices.program ||
+        node.arguments.some(
+          (arg) =>
+            parserServices.getTypeAtLocation(arg).getCallSignatures().length > 0
+        )
+      ) {
+        return true;
+      }
+      const checker = parserServices.program.getTypeChecker();
+      const signature = checker.getResolvedSignature(
+        parserServices.esTreeNodeToTSNodeMap.get(node)
+      );
+      return !signature?.declaration?.getSourceFile().isDeclarationFile;
+    }
+
+    // Get the chain keys a node writes to
+    function getWrites(node: TSESTree.Node): string[] {
+      switch (node.type) {
+        // Example: obj.prop.val = 5 writes "obj.prop.val", obj = other writes "obj"
+        case AST_NODE_TYPES.AssignmentExpression: {
+          const key = getChainKey(node.left);
+          return key === null ? [] : [key];
+        }
+        // Example: obj.prop.counter++ writes "obj.prop.counter"
+        case AST_NODE_TYPES.UpdateExpression: {
+          const key = getChainKey(node.argument);
+          return key === null ? [] : [key];
+        }
+        // Example: obj.methods.update(data) writes "obj.methods.*" and "data.*"
+        case AST_NODE_TYPES.CallExpression: {
+          const keys = node.arguments.flatMap((arg) => getReachableKeys(arg));
+          if (node.callee.type === AST_NODE_TYPES.MemberExpression) {
+            keys.push(...getReachableKeys(node.callee.object));
+          }
+          return keys;
+        }
+        default: {
+          return [];
+        }
+      }
+    }
+
+    // Collect all writes inside a loop, they reach the loop start through the back edge
+    function getLoopWrites(loop: TSESTree.Node): string[] {
+      const cached = loopWritesCache.get(loop);
+      if (cached) {
+        return cached;
+      }
+      const keys: string[] = [];
+      const visit = (node: TSESTree.Node) => {
+        keys.push(...getWrites(node));
+        for (const visitorKey of sourceCode.visitorKeys[node.type] ?? []) {
+          const child = (node as unknown as Record<string, unknown>)[
+            visitorKey
+          ];
+          for (const item of Array.isArray(child) ? child : [child]) {
+            if (item && typeof item === "object" && "type" in item) {
+              visit(item as TSESTree.Node);
+            }
+          }
+        }
+      };
+      visit(loop);
+      loopWritesCache.set(loop, keys);
+      return keys;
+    }
+
+    // Find the loop a back edge belongs to, falling back to the whole program
+    // eslint-disable-next-line unicorn/consistent-function-scoping
+    function findEnclosingLoop(node: TSESTree.Node): TSESTree.Node {
+      let current = node;
+      while (
+        current.parent &&
+        current.type !== AST_NODE_TYPES.ForStatement &&
+        current.type !== AST_NODE_TYPES.ForInStatement &&
+        current.type !== AST_NODE_TYPES.ForOfStatement &&
+        current.type !== AST_NODE_TYPES.WhileStatement &&
+        current.type !== AST_NODE_TYPES.DoWhileStatement
+      ) {
+        current = current.parent;
+      }
+      return current;
+    }
+
+    // Compute the state at the start of a segment from its predecessors
+    // Keys with different versions in the predecessors get a new version
+    function startSegment(segment: CodePathSegment, node: TSESTree.Node) {
+      segmentsById.set(segment.id, segment);
+      const state = new Map<string, number>();
+      const previousStates = segment.prevSegments
+        .filter((prev) => endedSegments.has(prev.id))
+        .map((prev) => segmentStates.get(prev.id)!);
+      const keys = new Set(previousStates.flatMap((prev) => [...prev.keys()]));
+      for (const key of keys) {
+        const versions = new Set(previousStates.map((prev) => prev.get(key)));
+        state.set(
+          key,
+          versions.size === 1
+            ? [...versions][0]!
+            : createVersion(node.range[0], false)
+        );
+      }
+
+      // Predecessors which weren't traversed yet are loop back edges
+      if (previousStates.length < segment.prevSegments.length) {
+        for (const key of getLoopWrites(findEnclosingLoop(node))) {
+          state.set(key, createVersion(node.range[0], false));
+        }
+      }
+
+      segmentStates.set(segment.id, state);
+      currentSegmentsStack.at(-1)!.add(segment.id);
+    }
+
+    function endSegment(segment: CodePathSegment) {
+      currentSegmentsStack.at(-1)!.delete(segment.id);
+      endedSegments.add(segment.id);
+    }
+
+    // Check whether the member expression is written or called rather than read
+    // eslint-disable-next-line unicorn/consistent-function-scoping
+    function isWriteOrCallee(node: TSESTree.MemberExpression): boolean {
+      const parent = node.parent;
+      return (
+        (parent.type === AST_NODE_TYPES.AssignmentExpression &&
+          parent.left === node) ||
+        (parent.type === AST_NODE_TYPES.UpdateExpression &&
+          parent.argument === node) ||
+        (parent.type === AST_NODE_TYPES.CallExpression &&
+          parent.callee === node)
+      );
     }
 
     function processMemberExpression(node: TSESTree.MemberExpression) {
       // Skip nodes that are part of larger member expressions
       // Example: In a.b.c, we process the top-level MemberExpression only,
-      // not the sub-expressions a.b or a
-      if (node.parent?.type === AST_NODE_TYPES.MemberExpression) {
+      // not the sub-expressions a.b or a (also through non-null assertions like a.b!.c)
+      let parent = node.parent;
+      while (parent?.type === AST_NODE_TYPES.TSNonNullExpression) {
+        parent = parent.parent;
+      }
+      if (parent?.type === AST_NODE_TYPES.MemberExpression) {
         return;
       }
 
-      const properties = analyzeChain(node);
-      if (!properties || properties.length === 0) {
+      if (loopsOnly && loopDepth === 0) {
+        return;
+      }
+
+      // Element access is not counted, but the fix has to replace the chain in
+      // a.b[0] = 1 as well, otherwise the write isn't visible through the variable
+      let target: TSESTree.Node = node;
+      while (
+        target.type === AST_NODE_TYPES.MemberExpression &&
+        target.computed
+      ) {
+        target = target.object;
+        while (target.type === AST_NODE_TYPES.TSNonNullExpression) {
+          target = target.expression;
+        }
+      }
+      if (target.type !== AST_NODE_TYPES.MemberExpression) {
+        return;
+      }
+      const counted = target === node;
+
+      const chain = analyzeChain(target);
+      // Example: obj.a.b = 1 and obj.a.update() only read obj.a
+      if (counted && isWriteOrCallee(node)) {
+        chain.properties.pop();
+        chain.nodes.pop();
+      }
+      if (chain.properties.length === 0) {
         return;
       }
 
@@ -210,55 +903,85 @@ const noRepeatedMemberAccess = createRule({
       const chainTree = getChainTree(scope);
 
       // Insert the chain into the tree (this will increment counts automatically)
-      chainTree.insertChain(properties);
+      const versions = chain.properties.map((_, index) =>
+        getVersion(chain.properties.slice(0, index + 1))
+      );
+      chainTree.insertChain(chain, versions, counted, [
+        ...currentSegmentsStack.at(-1)!,
+      ]);
 
       // Find all valid chains to report
       const validChains = chainTree.findValidChains();
       for (const result of validChains) {
-        if (!reportedChains.has(result.chain)) {
-          context.report({
-            node: node,
-            messageId: "repeatedAccess",
-            data: { chain: result.chain },
+        if (!reportedGroups.has(result.group)) {
+          pendingReports.push({
+            node,
+            chain: result.chain,
+            group: result.group,
+            scope,
           });
-          reportedChains.add(result.chain);
+          reportedGroups.add(result.group);
         }
       }
     }
 
-    return {
-      // Track assignments that modify member chains
-      // Example: obj.prop.val = 5 modifies the "obj.prop.val" chain
-      // This prevents us from extracting chains that are modified
-      AssignmentExpression: (node) => {
-        if (node.left.type === AST_NODE_TYPES.MemberExpression) {
-          const properties = analyzeChain(node.left);
-          setModifiedFlag(properties, node);
-        }
-      },
+    function enterLoop() {
+      loopDepth++;
+    }
 
-      // Track increment/decrement operations
-      // Example: obj.prop.counter++ modifies "obj.prop.counter"
-      UpdateExpression: (node) => {
-        if (node.argument.type === AST_NODE_TYPES.MemberExpression) {
-          const properties = analyzeChain(node.argument);
-          setModifiedFlag(properties, node);
-        }
-      },
+    function exitLoop() {
+      loopDepth--;
+    }
 
-      // Track function calls that might modify their arguments
-      // Example: obj.methods.update() might modify the "obj.methods" chain
-      CallExpression: (node) => {
-        if (node.callee.type === AST_NODE_TYPES.MemberExpression) {
-          const properties = analyzeChain(node.callee);
-          setModifiedFlag(properties, node);
+    const listener: RuleListener = {
+      // Track the loop nesting level for the loopsOnly option
+      ForStatement: enterLoop,
+      "ForStatement:exit": exitLoop,
+      WhileStatement: enterLoop,
+      "WhileStatement:exit": exitLoop,
+      DoWhileStatement: enterLoop,
+      "DoWhileStatement:exit": exitLoop,
+      ForInStatement: enterLoop,
+      "ForInStatement:exit": exitLoop,
+      ForOfStatement: enterLoop,
+      "ForOfStatement:exit": exitLoop,
+
+      // Writes take effect after their operands are evaluated
+      // Reads of a chain between two writes are grouped together
+      "AssignmentExpression:exit": (node) => applyWrites(getWrites(node), node),
+      "UpdateExpression:exit": (node) => applyWrites(getWrites(node), node),
+      "CallExpression:exit": (node) => {
+        applyWrites(getWrites(node), node);
+        if (isUnboundedCall(node)) {
+          unboundedCalls.push(node.range[1]);
         }
       },
 
       // Process member expressions to identify repeated patterns
       // Example: Catches obj.prop.val, user.settings.theme, etc.
       MemberExpression: (node) => processMemberExpression(node),
+
+      // Report once all accesses are collected, so the fix can replace all of them
+      "Program:exit": () => {
+        for (const report of pendingReports) {
+          reportChain(report);
+        }
+      },
     };
+
+    // Code path events are not part of the typed RuleListener
+    return Object.assign(listener, {
+      onCodePathStart: () => {
+        currentSegmentsStack.push(new Set());
+      },
+      onCodePathEnd: () => {
+        currentSegmentsStack.pop();
+      },
+      onCodePathSegmentStart: startSegment,
+      onUnreachableCodePathSegmentStart: startSegment,
+      onCodePathSegmentEnd: endSegment,
+      onUnreachableCodePathSegmentEnd: endSegment,
+    });
   },
 });
 
@@ -0,0 +1,183 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import ts from "typescript";
+import createRule from "../utils/createRule.js";
+import { contains } from "../utils/nodes.js";
+
+/**
+ * Rule: No Allocation In Loop
+ * Every heap allocation in a hot loop adds work for AssemblyScript's garbage collector.
+ * Reports allocation sites in loop bodies: `new` expressions, array and object literals,
+ * string concatenation and template literals, and calls of methods returning a new array
+ * or string like `.slice()` and `.map()`. Allocations are reported in loops nested deeper
+ * than `maxLoopDepth`, constructors of `allowedConstructors` are never reported.
+ */
+
+type MessageIds = "allocationInLoop";
+
+type Options = [
+  {
+    allowedConstructors?: string[];
+    maxLoopDepth?: number;
+  },
+];
+
+// Methods returning a new array or string instead of modifying the receiver
+const allocatingMethods = new Set(["concat", "filter", "map", "slice"]);
+
+export default createRule<Options, MessageIds>({
+  name: "no-allocation-in-loop",
+  meta: {
+    type: "suggestion",
+    docs: {
+      description: "Disallow heap allocations in loop bodies",
+    },
+    messages: {
+      allocationInLoop:
+        "{{ allocation }} allocates on the heap in every iteration of the loop. Move it out of the loop or reuse an existing value.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allowedConstructors: {
+            type: "array",
+            items: { type: "string" },
+            uniqueItems: true,
+            description:
+              "Classes which may be instantiated in loops, e.g. value types which are cheap to allocate",
+          },
+          maxLoopDepth: {
+            type: "integer",
+            minimum: 0,
+            description:
+              "Number of nested loops in which allocations are allowed, 0 reports allocations in every loop",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{ allowedConstructors: [], maxLoopDepth: 0 }],
+  create(context, [options]) {
+    const { allowedConstructors, maxLoopDepth } = options as Required<
+      Options[0]
+    >;
+    const allowed = new Set(allowedConstructors);
+    const parserServices = ESLintUtils.getParserServices(context);
+    const sourceCode = context.sourceCode;
+    // Bodies of the loops being visited, the innermost last
+    const loopBodies: TSESTree.Node[] = [];
+
+    function isString(node: TSESTree.Node): boolean {
+      return Boolean(
+        parserServices.getTypeAtLocation(node).flags & ts.TypeFlags.StringLike
+      );
+    }
+
+    // Check if a concatenation is part of a longer one, e.g. a + b in a + b + c
+    function isNestedConcatenation(node: TSESTree.BinaryExpression): boolean {
+      const parent = node.parent;
+      return (
+        parent.type === AST_NODE_TYPES.BinaryExpression &&
+        parent.operator === "+" &&
+        isString(parent)
+      );
+    }
+
+    // Report an allocation nested in more loop bodies than allowed, the
+    // header of a loop is evaluated per iteration of the enclosing loops only
+    function check(node: TSESTree.Node, allocation: string) {
+      const depth = loopBodies.filter((body) => contains(body, node)).length;
+      if (depth > maxLoopDepth) {
+        context.report({
+          node,
+          messageId: "allocationInLoop",
+          data: { allocation },
+        });
+      }
+    }
+
+    return {
+      // Track entry and exit for loops, the loop bodies are checked on the way
+      "ForStatement, WhileStatement, DoWhileStatement, ForInStatement, ForOfStatement"(
+        node:
+          | TSESTree.ForStatement
+          | TSESTree.WhileStatement
+          | TSESTree.DoWhileStatement
+          | TSESTree.ForInStatement
+          | TSESTree.ForOfStatement
+      ) {
+        loopBodies.push(node.body);
+      },
+      "ForStatement, WhileStatement, DoWhileStatement, ForInStatement, ForOfStatement:exit"() {
+        loopBodies.pop();
+      },
+
+      NewExpression(node) {
+        if (loopBodies.length === 0) {
+          return;
+        }
+        const callee = sourceCode.getText(node.callee);
+        if (!allowed.has(callee)) {
+          check(node, `'new ${callee}'`);
+        }
+      },
+
+      ArrayExpression(node) {
+        if (loopBodies.length > 0) {
+          check(node, "An array literal");
+        }
+      },
+
+      ObjectExpression(node) {
+        if (loopBodies.length > 0) {
+          check(node, "An object literal");
+        }
+      },
+
+      TemplateLiteral(node) {
+        if (loopBodies.length > 0 && node.expressions.length > 0) {
+          check(node, "A template literal");
+        }
+      },
+
+      BinaryExpression(node) {
+        if (
+          loopBodies.length > 0 &&
+          node.operator === "+" &&
+          isString(node) &&
+          !isNestedConcatenation(node)
+        ) {
+          check(node, "String concatenation");
+        }
+      },
+
+      AssignmentExpression(node) {
+        if (
+          loopBodies.length > 0 &&
+          node.operator === "+=" &&
+          isString(node.left)
+        ) {
+          check(node, "String concatenation");
+        }
+      },
+
+      CallExpression(node) {
+        const callee = node.callee;
+        if (
+          loopBodies.length > 0 &&
+          callee.type === AST_NODE_TYPES.MemberExpression &&
+          !callee.computed &&
+          callee.property.type === AST_NODE_TYPES.Identifier &&
+          allocatingMethods.has(callee.property.name)
+        ) {
+          check(node, `'.${callee.property.name}()'`);
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,83 @@
+import { TSESTree } from "@typescript-eslint/utils";
+import {
+  RuleListener,
+  RuleModule,
+  Scope,
+} from "@typescript-eslint/utils/ts-eslint";
+import createRule from "../utils/createRule.js";
+
+/**
+ * Rule: No Closure Capture
+ * Reject functions referencing local variables of an enclosing function, as
+ * AssemblyScript doesn't support closures. Module-level globals are allowed.
+ */
+
+// Scopes whose variables live on the stack of a function
+const localScopeTypes = new Set<string>([
+  Scope.ScopeType.function,
+  Scope.ScopeType.classFieldInitializer,
+  Scope.ScopeType.classStaticBlock,
+]);
+
+function isLocalVariable(variable: Scope.Variable): boolean {
+  // The name of a function expression refers to the function itself
+  if (variable.scope.type === Scope.ScopeType.functionExpressionName) {
+    return false;
+  }
+  return localScopeTypes.has(variable.scope.variableScope.type);
+}
+
+const noClosureCapture: RuleModule<
+  "closureCapture",
+  [],
+  unknown,
+  RuleListener
+> = createRule({
+  name: "no-closure-capture",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow functions capturing local variables of an enclosing function",
+    },
+    messages: {
+      closureCapture:
+        "Closures are not supported, '{{ name }}' is captured from an enclosing function.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    function checkFunction(node: TSESTree.FunctionLike) {
+      const scope = context.sourceCode.getScope(node);
+      const reported = new Set<Scope.Variable>();
+      for (const reference of scope.through) {
+        const variable = reference.resolved;
+        // Skip types and references belonging to a nested function, which is checked on its own
+        if (
+          !variable ||
+          !reference.isValueReference ||
+          reference.from.variableScope !== scope ||
+          reported.has(variable) ||
+          !isLocalVariable(variable)
+        ) {
+          continue;
+        }
+        reported.add(variable);
+        context.report({
+          node: reference.identifier,
+          messageId: "closureCapture",
+          data: { name: variable.name },
+        });
+      }
+    }
+
+    return {
+      ArrowFunctionExpression: checkFunction,
+      FunctionExpression: checkFunction,
+      FunctionDeclaration: checkFunction,
+    };
+  },
+});
+
+export default noClosureCapture;
@@ -1,12 +1,106 @@
-import { ESLintUtils } from "@typescript-eslint/utils";
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  RuleFix,
+  RuleFixer,
+  Scope,
+  SuggestionReportDescriptor,
+} from "@typescript-eslint/utils/ts-eslint";
 import createRule from "../utils/createRule.js";
+import { contains, getEnclosingFunction } from "../utils/nodes.js";
+import { getSettings } from "../utils/settings.js";
 import ts from "typescript";
 
 /**
  * Rule: Don't allow string concatenation in loops as this can incur performance penalties.
+ * When a string declared right before the loop is only appended to inside it, a suggestion
+ * rewrites the loop to collect the parts in an array and join them after the loop.
+ * Callbacks of array iteration methods count as loops, recursive functions optionally too.
+ * By default only concatenations accumulating across iterations are reported, i.e. whose
+ * result is assigned to a variable or property declared outside the loop body.
  */
 
-export default createRule({
+type MessageIds = "noConcatInLoop" | "noConcatInLoopStub" | "useArrayJoin";
+
+type Mode = "accumulate" | "all";
+
+type Options = [
+  {
+    mode?: Mode;
+    checkRecursive?: boolean;
+  },
+];
+
+// Array methods calling their callback once per element
+const iterationMethods = new Set([
+  "forEach",
+  "map",
+  "flatMap",
+  "filter",
+  "reduce",
+  "reduceRight",
+  "some",
+  "every",
+  "find",
+  "findIndex",
+  "findLast",
+  "findLastIndex",
+]);
+
+const loopTypes = new Set<string>([
+  AST_NODE_TYPES.ForStatement,
+  AST_NODE_TYPES.WhileStatement,
+  AST_NODE_TYPES.DoWhileStatement,
+  AST_NODE_TYPES.ForInStatement,
+  AST_NODE_TYPES.ForOfStatement,
+]);
+
+// Array methods passing the callback result to the next call
+const reduceMethods = new Set(["reduce", "reduceRight"]);
+
+// Get the iteration method a callback is passed to, e.g. "forEach" for items.forEach((item) => { ... })
+function getIterationMethod(node: TSESTree.FunctionLike): string | null {
+  const parent = node.parent;
+  return parent?.type === AST_NODE_TYPES.CallExpression &&
+    parent.arguments[0] === node &&
+    parent.callee.type === AST_NODE_TYPES.MemberExpression &&
+    !parent.callee.computed &&
+    parent.callee.property.type === AST_NODE_TYPES.Identifier &&
+    iterationMethods.has(parent.callee.property.name)
+    ? parent.callee.property.name
+    : null;
+}
+
+// Collect the names visible in a scope or declared in one of its children
+function collectNames(scope: Scope.Scope): Set<string> {
+  const names = new Set<string>();
+  for (
+    let current: Scope.Scope | null = scope;
+    current;
+    current = current.upper
+  ) {
+    for (const name of current.set.keys()) {
+      names.add(name);
+    }
+  }
+  const pending = [...scope.childScopes];
+  for (let child = pending.pop(); child; child = pending.pop()) {
+    for (const name of child.set.keys()) {
+      names.add(name);
+    }
+    pending.push(...child.childScopes);
+  }
+  for (const reference of scope.through) {
+    names.add(reference.identifier.name);
+  }
+  return names;
+}
+
+export default createRule<Options, MessageIds>({
   name: "no-concat-string",
   meta: {
     type: "problem",
@@ -16,11 +110,34 @@ export default createRule({
     messages: {
       noConcatInLoop:
         "String concatenation inside loops can lead to performance issues. Use array.join() or a string builder instead.",
+      noConcatInLoopStub:
+        "String concatenation inside loops leaks memory with the stub runtime, which never frees the intermediate strings. Use array.join() or a string builder instead.",
+      useArrayJoin:
+        "Collect the parts in '{{ name }}' and join them after the loop.",
     },
-    schema: [], // no options
+    hasSuggestions: true,
+    schema: [
+      {
+        type: "object",
+        properties: {
+          mode: {
+            type: "string",
+            enum: ["accumulate", "all"],
+            description:
+              "Report only concatenations accumulating across iterations, or all concatenations in loops",
+          },
+          checkRecursive: {
+            type: "boolean",
+            description:
+              "Also check concatenation inside functions calling themselves",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
-  defaultOptions: [],
-  create(context) {
+  defaultOptions: [{ mode: "accumulate", checkRecursive: false }],
+  create(context, [options]) {
     // We uses built-in type system to deduce type information
     // https://typescript-eslint.io/developers/custom-rules/#typed-rules
     // https://typescript-eslint.io/getting-started/typed-linting/
@@ -52,56 +169,311 @@ export default createRule({
 
       return false;
     }
-    // Track the loop nesting level
-    let loopDepth = 0;
+    const { mode, checkRecursive } = options as Required<Options[0]>;
+    // Nodes whose variables are created anew per iteration, i.e. loop bodies and
+    // functions called repeatedly, the innermost last
+    const iterations: TSESTree.Node[] = [];
+    // Functions whose return value feeds the next iteration, i.e. reduce callbacks and recursive functions
+    const accumulatingFunctions = new Set<TSESTree.Node>();
+    // Calls of recursive functions to themselves
+    const selfCalls = new Set<TSESTree.Node>();
     // Grab the parser services for the rule
     const parserServices = ESLintUtils.getParserServices(context);
     // Grab the TypeScript type checker
     const checker = parserServices.program.getTypeChecker();
+    // Intermediate strings are never freed by the stub runtime
+    const messageId =
+      getSettings(context).runtime === "stub"
+        ? "noConcatInLoopStub"
+        : "noConcatInLoop";
 
-    return {
-      // Track entry and exit for loops
-      // Upon entering, loopDepth will increment; upon exiting loopDepth will decrease
-      // We use this mechanism to detect whether we are in a loop or not (when in loop, loopDepth will be a value greater than 0)
-      ForStatement() {
-        loopDepth++;
-      },
-      "ForStatement:exit"() {
-        loopDepth--;
-      },
+    // Find the calls of a function to itself, e.g. function f() { f(); } or this.m() in method m
+    function getSelfCalls(
+      node: TSESTree.FunctionLike
+    ): TSESTree.CallExpression[] {
+      const sourceCode = context.sourceCode;
+      let isSelfCall: (call: TSESTree.CallExpression) => boolean;
+      if (
+        node.parent?.type === AST_NODE_TYPES.MethodDefinition &&
+        node.parent.key.type === AST_NODE_TYPES.Identifier &&
+        !node.parent.computed
+      ) {
+        const name = node.parent.key.name;
+        isSelfCall = (call) =>
+          call.callee.type === AST_NODE_TYPES.MemberExpression &&
+          call.callee.object.type === AST_NODE_TYPES.ThisExpression &&
+          call.callee.property.type === AST_NODE_TYPES.Identifier &&
+          call.callee.property.name === name;
+      } else {
+        // The name of a declaration, a named function expression or of the variable holding it
+        const variables = [...sourceCode.getDeclaredVariables(node)];
+        if (node.parent?.type === AST_NODE_TYPES.VariableDeclarator) {
+          variables.push(...sourceCode.getDeclaredVariables(node.parent));
+        }
+        const identifiers = new Set<TSESTree.Node>();
+        for (const variable of variables) {
+          for (const reference of variable.references) {
+            identifiers.add(reference.identifier);
+          }
+        }
+        isSelfCall = (call) => identifiers.has(call.callee);
+      }
 
-      WhileStatement() {
-        loopDepth++;
-      },
-      "WhileStatement:exit"() {
-        loopDepth--;
-      },
+      const calls: TSESTree.CallExpression[] = [];
+      const pending: TSESTree.Node[] = node.body ? [node.body] : [];
+      for (let current = pending.pop(); current; current = pending.pop()) {
+        if (
+          current.type === AST_NODE_TYPES.CallExpression &&
+          isSelfCall(current)
+        ) {
+          calls.push(current);
+        }
+        for (const key of sourceCode.visitorKeys[current.type] ?? []) {
+          const value = (current as unknown as Record<string, unknown>)[key];
+          for (const child of Array.isArray(value) ? value : [value]) {
+            if (child && typeof (child as TSESTree.Node).type === "string") {
+              pending.push(child as TSESTree.Node);
+            }
+          }
+        }
+      }
+      return calls;
+    }
 
-      DoWhileStatement() {
-        loopDepth++;
-      },
-      "DoWhileStatement:exit"() {
-        loopDepth--;
-      },
+    // Check if an assignment target is declared outside the innermost loop body or callback,
+    // e.g. s or obj.text for a string or object declared before the loop
+    function isDeclaredOutsideLoop(target: TSESTree.Node): boolean {
+      let object = target;
+      while (
+        object.type === AST_NODE_TYPES.MemberExpression ||
+        object.type === AST_NODE_TYPES.TSNonNullExpression
+      ) {
+        object =
+          object.type === AST_NODE_TYPES.MemberExpression
+            ? object.object
+            : object.expression;
+      }
+      // Properties of this or of call results outlive the iteration
+      if (object.type !== AST_NODE_TYPES.Identifier) {
+        return true;
+      }
+      const variable = ASTUtils.findVariable(
+        context.sourceCode.getScope(object),
+        object
+      );
+      const definition = variable?.defs[0];
+      return (
+        !definition ||
+        !contains(iterations[iterations.length - 1], definition.name)
+      );
+    }
 
-      ForInStatement() {
-        loopDepth++;
+    // Check if the result of a concatenation is kept for the next iteration
+    function isAccumulated(node: TSESTree.Expression): boolean {
+      // Start from the outermost concatenation, e.g. a + b + c
+      let current: TSESTree.Node = node;
+      while (
+        current.parent?.type === AST_NODE_TYPES.BinaryExpression &&
+        current.parent.operator === "+"
+      ) {
+        current = current.parent;
+      }
+      const parent = current.parent;
+      // The += assignment is reported itself, e.g. once for s += "," + x
+      if (parent?.type === AST_NODE_TYPES.AssignmentExpression) {
+        return (
+          parent.operator !== "+=" &&
+          parent.right === current &&
+          isDeclaredOutsideLoop(parent.left)
+        );
+      }
+      // Passed to the next call of a recursive function
+      if (parent?.type === AST_NODE_TYPES.CallExpression) {
+        return selfCalls.has(parent) && parent.callee !== current;
+      }
+      // Returned to the next call of a reduce callback or recursive function
+      const loop = iterations[iterations.length - 1];
+      const returningFunction =
+        parent?.type === AST_NODE_TYPES.ReturnStatement
+          ? getEnclosingFunction(parent)
+          : parent;
+      return returningFunction === loop && accumulatingFunctions.has(loop);
+    }
+
+    // Check if an assignment wraps the previous value, e.g. s = `${s}x` or s = s.concat(x)
+    function isAccumulating(node: TSESTree.AssignmentExpression): boolean {
+      const sourceCode = context.sourceCode;
+      const target = sourceCode.getText(node.left);
+      const right = node.right;
+      if (right.type === AST_NODE_TYPES.TemplateLiteral) {
+        return right.expressions.some(
+          (expression) => sourceCode.getText(expression) === target
+        );
+      }
+      return (
+        right.type === AST_NODE_TYPES.CallExpression &&
+        right.callee.type === AST_NODE_TYPES.MemberExpression &&
+        right.callee.property.type === AST_NODE_TYPES.Identifier &&
+        right.callee.property.name === "concat" &&
+        sourceCode.getText(right.callee.object) === target &&
+        isStringType(parserServices.getTypeAtLocation(right.callee.object))
+      );
+    }
+
+    // Suggest an array of parts for let s = ""; for (...) { s += x; }
+    // Not possible when s is used in the loop for anything else than appending
+    function getArrayJoinSuggestion(
+      node: TSESTree.AssignmentExpression
+    ): SuggestionReportDescriptor<MessageIds>[] {
+      const sourceCode = context.sourceCode;
+      if (node.left.type !== AST_NODE_TYPES.Identifier) {
+        return [];
+      }
+      const variable = ASTUtils.findVariable(
+        sourceCode.getScope(node),
+        node.left
+      );
+      const definition = variable?.defs[0];
+      if (
+        !variable ||
+        variable.defs.length !== 1 ||
+        definition?.node.type !== AST_NODE_TYPES.VariableDeclarator ||
+        !definition.node.init
+      ) {
+        return [];
+      }
+      const declarator = definition.node;
+      const declaration = declarator.parent;
+      const container = declaration.parent;
+      if (
+        declaration.declarations.length !== 1 ||
+        (container.type !== AST_NODE_TYPES.BlockStatement &&
+          container.type !== AST_NODE_TYPES.Program)
+      ) {
+        return [];
+      }
+      const loop = container.body[container.body.indexOf(declaration) + 1];
+      if (!loop || !loopTypes.has(loop.type) || !contains(loop, node)) {
+        return [];
+      }
+
+      const appends: TSESTree.AssignmentExpression[] = [];
+      for (const reference of variable.references) {
+        if (!contains(loop, reference.identifier)) {
+          continue;
+        }
+        const parent = reference.identifier.parent;
+        if (
+          parent.type !== AST_NODE_TYPES.AssignmentExpression ||
+          parent.operator !== "+=" ||
+          parent.left !== reference.identifier ||
+          parent.parent.type !== AST_NODE_TYPES.ExpressionStatement ||
+          parent.right.type === AST_NODE_TYPES.SequenceExpression ||
+          !isStringType(parserServices.getTypeAtLocation(parent.right))
+        ) {
+          return [];
+        }
+        appends.push(parent);
+      }
+
+      const takenNames = collectNames(sourceCode.getScope(declaration));
+      const baseName = `${variable.name}Parts`;
+      let name = baseName;
+      for (let suffix = 2; takenNames.has(name); suffix++) {
+        name = `${baseName}${suffix}`;
+      }
+      const indent = /^\s*/.exec(
+        sourceCode.lines[declaration.loc.start.line - 1]
+      )![0];
+      const partsDeclaration = `const ${name} = new Array<string>();`;
+      const init = definition.node.init;
+      const isEmpty = init.type === AST_NODE_TYPES.Literal && init.value === "";
+
+      return [
+        {
+          messageId: "useArrayJoin",
+          data: { name },
+          fix: (fixer: RuleFixer): RuleFix[] => [
+            // An empty initial value is replaced by the parts, otherwise the parts are appended to it
+            ...(isEmpty
+              ? [
+                  fixer.replaceText(declaration, partsDeclaration),
+                  fixer.insertTextAfter(
+                    loop,
+                    `\n${indent}${declaration.kind} ${sourceCode.getText(declarator.id)} = ${name}.join("");`
+                  ),
+                ]
+              : [
+                  fixer.insertTextAfter(
+                    declaration,
+                    `\n${indent}${partsDeclaration}`
+                  ),
+                  fixer.insertTextAfter(
+                    loop,
+                    `\n${indent}${variable.name} += ${name}.join("");`
+                  ),
+                ]),
+            ...appends.map((append) =>
+              fixer.replaceText(
+                append,
+                `${name}.push(${sourceCode.getText(append.right)})`
+              )
+            ),
+          ],
+        },
+      ];
+    }
+
+    // Check if a concatenation has to be reported in the current mode
+    function shouldReport(node: TSESTree.Expression): boolean {
+      return mode === "all" || isAccumulated(node);
+    }
+
+    // Functions counted as loops, to pop them again when leaving them
+    const loopFunctions = new Set<TSESTree.Node>();
+
+    return {
+      // Callbacks of iteration methods and, if enabled, recursive functions are executed repeatedly
+      ":function"(node: TSESTree.FunctionLike) {
+        const method = getIterationMethod(node);
+        const calls = checkRecursive && !method ? getSelfCalls(node) : [];
+        if (!node.body || (!method && calls.length === 0)) {
+          return;
+        }
+        if (calls.length > 0 || reduceMethods.has(method!)) {
+          accumulatingFunctions.add(node);
+        }
+        calls.forEach((call) => selfCalls.add(call));
+        loopFunctions.add(node);
+        iterations.push(node);
       },
-      "ForInStatement:exit"() {
-        loopDepth--;
+      ":function:exit"(node: TSESTree.FunctionLike) {
+        if (loopFunctions.has(node)) {
+          iterations.pop();
+        }
       },
 
-      ForOfStatement() {
-        loopDepth++;
+      // Track entry and exit for loops
+      // Upon entering, the loop body is pushed; upon exiting it is popped again
+      // We use this mechanism to detect whether we are in a loop or not (when in loop, iterations isn't empty)
+      "ForStatement, WhileStatement, DoWhileStatement, ForInStatement, ForOfStatement"(
+        node:
+          | TSESTree.ForStatement
+          | TSESTree.WhileStatement
+          | TSESTree.DoWhileStatement
+          | TSESTree.ForInStatement
+          | TSESTree.ForOfStatement
+      ) {
+        iterations.push(node.body);
       },
-      "ForOfStatement:exit"() {
-        loopDepth--;
+      "ForStatement, WhileStatement, DoWhileStatement, ForInStatement, ForOfStatement:exit"() {
+        iterations.pop();
       },
 
       // Check for string concatenation with + operator
       BinaryExpression(node) {
         // Only check inside loops
-        if (loopDepth === 0) {
+        if (iterations.length === 0) {
           return;
         }
 
@@ -110,18 +482,31 @@ export default createRule({
 
         if (
           node.operator === "+" &&
-          (isStringType(leftType) || isStringType(rightType))
+          (isStringType(leftType) || isStringType(rightType)) &&
+          shouldReport(node)
         ) {
           context.report({
             node,
-            messageId: "noConcatInLoop",
+            messageId,
           });
         }
       },
 
       // Check for string concatenation with += operator
       AssignmentExpression(node) {
-        if (loopDepth === 0) {
+        if (
+          iterations.length === 0 ||
+          (mode === "accumulate" && !isDeclaredOutsideLoop(node.left))
+        ) {
+          return;
+        }
+
+        // Check for s = `${s}x` and s = s.concat(x)
+        if (node.operator === "=" && isAccumulating(node)) {
+          context.report({
+            node,
+            messageId,
+          });
           return;
         }
 
@@ -143,7 +528,8 @@ export default createRule({
           if (shouldReport) {
             context.report({
               node,
-              messageId: "noConcatInLoop",
+              messageId,
+              suggest: getArrayJoinSuggestion(node),
             });
           }
         }
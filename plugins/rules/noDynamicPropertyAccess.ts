@@ -0,0 +1,150 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import ts from "typescript";
+import createRule from "../utils/createRule.js";
+import { getDeclarationDecorators } from "../utils/decorators.js";
+
+/**
+ * Rule: No Dynamic Property Access
+ * AssemblyScript has no dynamic property lookup, `obj[key]` only compiles on arrays and
+ * classes overloading the index operators. Computed member access is reported unless the
+ * object is an Array, a typed array, a StaticArray, a Map, a string or an instance of a
+ * class with an `@operator("[]")` overload (`@operator("[]=")` for assignments).
+ */
+
+type MessageIds = "dynamicAccess";
+
+// Indexable classes of the standard library
+const indexableTypes = new Set([
+  "Array",
+  "ReadonlyArray",
+  "StaticArray",
+  "Map",
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Int64Array",
+  "Uint64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+  "Float32Array",
+  "Float64Array",
+]);
+
+// Checked (`[]`) and unchecked (`{}`) index operators
+const getOperators = ["[]", "{}"];
+const setOperators = ["[]=", "{}="];
+
+// Check if the value of a member expression is read, written or both, e.g. by a[i] += 1
+function getAccess(node: TSESTree.MemberExpression): {
+  read: boolean;
+  write: boolean;
+} {
+  const parent = node.parent;
+  if (
+    parent.type === AST_NODE_TYPES.AssignmentExpression &&
+    parent.left === node
+  ) {
+    return { read: parent.operator !== "=", write: true };
+  }
+  if (parent.type === AST_NODE_TYPES.UpdateExpression) {
+    return { read: true, write: true };
+  }
+  return { read: true, write: false };
+}
+
+// Index operators overloaded by the methods of a class, including inherited ones
+function getOverloadedOperators(type: ts.Type): Set<string> {
+  const operators = new Set<string>();
+  for (const property of type.getProperties()) {
+    for (const declaration of property.declarations ?? []) {
+      for (const decorator of getDeclarationDecorators(declaration)) {
+        const token = decorator.arguments?.[0];
+        if (
+          (decorator.name === "operator" ||
+            decorator.name === "operator.binary") &&
+          token
+        ) {
+          operators.add(token);
+        }
+      }
+    }
+  }
+  return operators;
+}
+
+export default createRule<[], MessageIds>({
+  name: "no-dynamic-property-access",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow computed member access on types which can't be indexed in AssemblyScript",
+    },
+    messages: {
+      dynamicAccess:
+        "'{{ type }}' can't be indexed in AssemblyScript, which has no dynamic property access. Use an array, a Map or a class overloading '@operator(\"{{ operator }}\")'.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const parserServices = ESLintUtils.getParserServices(context);
+    const checker = parserServices.program.getTypeChecker();
+
+    function isIndexable(type: ts.Type): boolean {
+      if (
+        type.flags &
+        (ts.TypeFlags.Any |
+          ts.TypeFlags.Unknown |
+          ts.TypeFlags.StringLike |
+          ts.TypeFlags.TypeParameter)
+      ) {
+        return true;
+      }
+      if (checker.isArrayType(type) || checker.isTupleType(type)) {
+        return true;
+      }
+      const name = type.getSymbol()?.name;
+      return name !== undefined && indexableTypes.has(name);
+    }
+
+    return {
+      MemberExpression(node) {
+        if (!node.computed) {
+          return;
+        }
+        const type = checker.getNonNullableType(
+          parserServices.getTypeAtLocation(node.object)
+        );
+        if (isIndexable(type)) {
+          return;
+        }
+        const { read, write } = getAccess(node);
+        const overloaded = getOverloadedOperators(type);
+        const overloads = (tokens: string[]) =>
+          tokens.some((token) => overloaded.has(token));
+        let missing: string | null = null;
+        if (read && !overloads(getOperators)) {
+          missing = "[]";
+        } else if (write && !overloads(setOperators)) {
+          missing = "[]=";
+        }
+        if (missing) {
+          context.report({
+            node,
+            messageId: "dynamicAccess",
+            data: { type: checker.typeToString(type), operator: missing },
+          });
+        }
+      },
+    };
+  },
+});
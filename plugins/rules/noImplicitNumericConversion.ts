@@ -0,0 +1,167 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import { RuleFixer } from "@typescript-eslint/utils/ts-eslint";
+import createRule from "../utils/createRule.js";
+import { getEnclosingFunction } from "../utils/nodes.js";
+import {
+  isAssignable,
+  NumericType,
+  resolveNumericType,
+  resolveParameterTypes,
+  resolveTypeAnnotation,
+} from "../utils/numericTypes.js";
+
+/**
+ * Rule: No Implicit Numeric Conversion
+ * asc only converts numeric values implicitly when no data is lost. Storing an f64 in an
+ * i32 or an i64 in an i32 is a compile error or, where asc wraps the value, a silent
+ * truncation. Assignments, arguments and returns whose value doesn't fit the target type
+ * are reported with suggestions for an explicit conversion.
+ */
+
+type MessageIds = "implicitConversion" | "castAssertion" | "castCall";
+
+// Expressions which can be prefixed with <T> without parentheses
+const primaryExpressions = new Set<AST_NODE_TYPES>([
+  AST_NODE_TYPES.Identifier,
+  AST_NODE_TYPES.Literal,
+  AST_NODE_TYPES.MemberExpression,
+  AST_NODE_TYPES.CallExpression,
+  AST_NODE_TYPES.TSNonNullExpression,
+  AST_NODE_TYPES.ThisExpression,
+]);
+
+// Check if an expression is a numeric literal, e.g. 0.5 or -1
+function isNumericLiteral(node: TSESTree.Node): boolean {
+  if (node.type === AST_NODE_TYPES.UnaryExpression) {
+    return isNumericLiteral(node.argument);
+  }
+  return node.type === AST_NODE_TYPES.Literal && typeof node.value === "number";
+}
+
+export default createRule<[], MessageIds>({
+  name: "no-implicit-numeric-conversion",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow implicit conversions between numeric types which may lose data",
+    },
+    hasSuggestions: true,
+    messages: {
+      implicitConversion:
+        "'{{ from }}' is implicitly converted to '{{ to }}', which may lose data. Convert it explicitly.",
+      castAssertion: "Convert with '<{{ type }}>'.",
+      castCall: "Convert with '{{ type }}()'.",
+    },
+    schema: [], // no options
+  },
+  defaultOptions: [],
+  create(context) {
+    const parserServices = ESLintUtils.getParserServices(context);
+    const sourceCode = context.sourceCode;
+
+    function check(
+      value: TSESTree.Node | null | undefined,
+      target: NumericType | null
+    ) {
+      if (!value || !target) {
+        return;
+      }
+      // Float literals take the float type of their context, e.g. 0.5 as f32
+      if (target.kind === "float" && isNumericLiteral(value)) {
+        return;
+      }
+      const source = resolveNumericType(parserServices, value);
+      if (!source || isAssignable(source, target)) {
+        return;
+      }
+
+      const text = sourceCode.getText(value);
+      const operand = primaryExpressions.has(value.type) ? text : `(${text})`;
+      context.report({
+        node: value,
+        messageId: "implicitConversion",
+        data: { from: source.name, to: target.name },
+        suggest: [
+          {
+            messageId: "castAssertion",
+            data: { type: target.name },
+            fix: (fixer: RuleFixer) =>
+              fixer.replaceText(value, `<${target.name}>${operand}`),
+          },
+          {
+            messageId: "castCall",
+            data: { type: target.name },
+            fix: (fixer: RuleFixer) =>
+              fixer.replaceText(value, `${target.name}(${text})`),
+          },
+        ],
+      });
+    }
+
+    function checkAnnotated(
+      annotation: TSESTree.TSTypeAnnotation | undefined,
+      value: TSESTree.Node | null | undefined
+    ) {
+      if (annotation) {
+        check(
+          value,
+          resolveTypeAnnotation(parserServices, annotation.typeAnnotation)
+        );
+      }
+    }
+
+    function checkReturn(
+      node: TSESTree.Node,
+      value: TSESTree.Node | null | undefined
+    ) {
+      checkAnnotated(getEnclosingFunction(node)?.returnType, value);
+    }
+
+    function checkArguments(
+      node: TSESTree.CallExpression | TSESTree.NewExpression
+    ) {
+      const parameters = resolveParameterTypes(parserServices, node);
+      parameters.forEach((parameter, index) => {
+        const argument = node.arguments[index];
+        if (argument?.type !== AST_NODE_TYPES.SpreadElement) {
+          check(argument, parameter);
+        }
+      });
+    }
+
+    return {
+      VariableDeclarator(node) {
+        checkAnnotated(node.id.typeAnnotation, node.init);
+      },
+
+      PropertyDefinition(node) {
+        checkAnnotated(node.typeAnnotation, node.value);
+      },
+
+      AssignmentExpression(node) {
+        if (node.operator === "=") {
+          check(node.right, resolveNumericType(parserServices, node.left));
+        }
+      },
+
+      CallExpression: checkArguments,
+      NewExpression: checkArguments,
+
+      ReturnStatement(node) {
+        checkReturn(node, node.argument);
+      },
+
+      // Expression bodies of arrow functions are returned as well
+      ArrowFunctionExpression(node) {
+        if (node.expression) {
+          checkReturn(node.body, node.body);
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,219 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import { RuleFixer } from "@typescript-eslint/utils/ts-eslint";
+import ts from "typescript";
+import createRule from "../utils/createRule.js";
+
+/**
+ * Rule: No Object Literal Without Class
+ * AssemblyScript has no structural object types, an object literal creates an instance of
+ * the class it is assigned to and may only set fields of that class. Literals without a
+ * class type, e.g. untyped or typed with an interface, are reported, as are keys which are
+ * no fields of the class. Untyped literals initializing a variable get a suggestion to
+ * create an instance of the class named like the variable and assign its fields instead.
+ */
+
+type MessageIds = "missingClass" | "notAClass" | "unknownField" | "useClass";
+
+// Name of a property key, null for computed keys
+function getKeyName(property: TSESTree.Property): string | null {
+  if (property.computed) {
+    return null;
+  }
+  if (property.key.type === AST_NODE_TYPES.Identifier) {
+    return property.key.name;
+  }
+  return property.key.type === AST_NODE_TYPES.Literal
+    ? String(property.key.value)
+    : null;
+}
+
+// Check if a class member is a field, including parameter properties
+function isField(symbol: ts.Symbol): boolean {
+  return (symbol.declarations ?? []).some(
+    (declaration) =>
+      ts.isPropertyDeclaration(declaration) || ts.isParameter(declaration)
+  );
+}
+
+// Check if a constructor parameter can be left out, e.g. (size: i32 = 0)
+function isOptionalParameter(symbol: ts.Symbol): boolean {
+  const declaration = symbol.valueDeclaration;
+  return (
+    declaration !== undefined &&
+    ts.isParameter(declaration) &&
+    (declaration.initializer !== undefined ||
+      declaration.questionToken !== undefined ||
+      declaration.dotDotDotToken !== undefined)
+  );
+}
+
+// Class name derived from the variable a literal initializes, e.g. Config for config
+function getClassName(node: TSESTree.ObjectExpression): string | null {
+  const declarator = node.parent;
+  if (
+    declarator.type !== AST_NODE_TYPES.VariableDeclarator ||
+    declarator.id.type !== AST_NODE_TYPES.Identifier
+  ) {
+    return null;
+  }
+  const name = declarator.id.name;
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+export default createRule<[], MessageIds>({
+  name: "no-object-literal-without-class",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow object literals which don't create an instance of a class",
+    },
+    hasSuggestions: true,
+    messages: {
+      missingClass:
+        "Object literals need a class type in AssemblyScript. Declare a class and create an instance of it.",
+      notAClass:
+        "'{{ type }}' is not a class, object literals can only create class instances in AssemblyScript.",
+      unknownField: "'{{ key }}' is not a field of class '{{ className }}'.",
+      useClass:
+        "Create the object with 'new {{ className }}()' and assign its fields.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const parserServices = ESLintUtils.getParserServices(context);
+    const checker = parserServices.program.getTypeChecker();
+    const sourceCode = context.sourceCode;
+
+    // Class declared under a name whose instances can be created without arguments
+    function findClass(node: ts.Node, name: string): ts.Type | null {
+      let symbol = checker
+        .getSymbolsInScope(node, ts.SymbolFlags.Class)
+        .find((candidate) => candidate.name === name);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = checker.getAliasedSymbol(symbol);
+      }
+      if (!symbol || !(symbol.flags & ts.SymbolFlags.Class)) {
+        return null;
+      }
+      const constructors = checker.getSignaturesOfType(
+        checker.getTypeOfSymbol(symbol),
+        ts.SignatureKind.Construct
+      );
+      return constructors.some((signature) =>
+        signature.parameters.every(isOptionalParameter)
+      )
+        ? checker.getDeclaredTypeOfSymbol(symbol)
+        : null;
+    }
+
+    // Replace `const config = { a: 1 }` with an instance and one assignment per key
+    function getSuggestion(node: TSESTree.ObjectExpression, type: ts.Type) {
+      const className = type.getSymbol()!.name;
+      const declarator = node.parent;
+      const declaration = declarator.parent;
+      if (
+        declarator.type !== AST_NODE_TYPES.VariableDeclarator ||
+        declarator.init !== node ||
+        declarator.id.type !== AST_NODE_TYPES.Identifier ||
+        declaration?.type !== AST_NODE_TYPES.VariableDeclaration ||
+        declaration.declarations.length !== 1 ||
+        (declaration.parent.type !== AST_NODE_TYPES.Program &&
+          declaration.parent.type !== AST_NODE_TYPES.BlockStatement)
+      ) {
+        return [];
+      }
+      const assignments: string[] = [];
+      for (const property of node.properties) {
+        // Spreads, methods and accessors have no field to assign
+        if (
+          property.type !== AST_NODE_TYPES.Property ||
+          property.kind !== "init" ||
+          property.method
+        ) {
+          return [];
+        }
+        const key = getKeyName(property);
+        const member = key === null ? undefined : type.getProperty(key);
+        if (
+          key === null ||
+          !/^[A-Za-z_$][\w$]*$/.test(key) ||
+          !member ||
+          !isField(member)
+        ) {
+          return [];
+        }
+        const value = sourceCode.getText(property.value);
+        assignments.push(`${declarator.id.name}.${key} = ${value};`);
+      }
+      const indent = " ".repeat(declaration.loc.start.column);
+      return [
+        {
+          messageId: "useClass" as const,
+          data: { className },
+          fix: (fixer: RuleFixer) => [
+            fixer.replaceText(node, `new ${className}()`),
+            fixer.insertTextAfter(
+              declaration,
+              assignments.map((line) => `\n${indent}${line}`).join("")
+            ),
+          ],
+        },
+      ];
+    }
+
+    function checkFields(node: TSESTree.ObjectExpression, type: ts.Type) {
+      const className = type.getSymbol()!.name;
+      for (const property of node.properties) {
+        if (property.type !== AST_NODE_TYPES.Property) {
+          continue;
+        }
+        const key = getKeyName(property);
+        const member = key === null ? undefined : type.getProperty(key);
+        if (!member || !isField(member)) {
+          context.report({
+            node: property.key,
+            messageId: "unknownField",
+            data: { key: key ?? sourceCode.getText(property.key), className },
+          });
+        }
+      }
+    }
+
+    return {
+      ObjectExpression(node) {
+        const tsNode = parserServices.esTreeNodeToTSNodeMap.get(node);
+        const contextualType = checker.getContextualType(tsNode);
+        const type =
+          contextualType && checker.getNonNullableType(contextualType);
+        // Unknown types, e.g. unresolved classes, can't be checked
+        if (type && type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+          return;
+        }
+        if (type && (type.getSymbol()?.flags ?? 0) & ts.SymbolFlags.Class) {
+          checkFields(node, type);
+          return;
+        }
+        // Interfaces and type literals can't be instantiated, untyped literals need a class
+        const className = type ? null : getClassName(node);
+        const classType = className ? findClass(tsNode, className) : null;
+        const suggest = classType ? getSuggestion(node, classType) : [];
+        if (type) {
+          context.report({
+            node,
+            messageId: "notAClass",
+            data: { type: checker.typeToString(type) },
+            suggest,
+          });
+        } else {
+          context.report({ node, messageId: "missingClass", suggest });
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,59 @@
+import { AST_NODE_TYPES, ESLintUtils } from "@typescript-eslint/utils";
+import ts from "typescript";
+import createRule from "../utils/createRule.js";
+
+/**
+ * Rule: No Union Types
+ * AssemblyScript only supports unions of a single reference type and null, e.g.
+ * `string | null`. Other unions like `string | i32` or `"a" | "b"` are rejected by
+ * the compiler, as are nullable value types like `i32 | null`.
+ */
+
+// Types stored by value, which have no null
+const valueTypeFlags =
+  ts.TypeFlags.NumberLike | ts.TypeFlags.BooleanLike | ts.TypeFlags.BigIntLike;
+
+export default createRule({
+  name: "no-union-types",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow union types other than a reference type with null, which are not supported in AssemblyScript",
+    },
+    messages: {
+      unsupportedUnion:
+        "Union types are not supported in AssemblyScript, except for a reference type with null like 'T | null'.",
+      nullablePrimitive:
+        "'{{ type }}' is a value type and can't be null in AssemblyScript. Use a sentinel value like -1 or wrap it in a class.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const parserServices = ESLintUtils.getParserServices(context);
+
+    return {
+      TSUnionType(node) {
+        const types = node.types.filter(
+          (type) => type.type !== AST_NODE_TYPES.TSNullKeyword
+        );
+        if (types.length !== 1) {
+          context.report({ node, messageId: "unsupportedUnion" });
+          return;
+        }
+        // Literal types like "a" | null are not supported either
+        const type = parserServices.getTypeAtLocation(types[0]);
+        if (type.flags & ts.TypeFlags.Literal) {
+          context.report({ node, messageId: "unsupportedUnion" });
+        } else if (type.flags & valueTypeFlags) {
+          context.report({
+            node,
+            messageId: "nullablePrimitive",
+            data: { type: context.sourceCode.getText(types[0]) },
+          });
+        }
+      },
+    };
+  },
+});
@@ -1,10 +1,21 @@
-import { ESLintUtils } from "@typescript-eslint/utils";
+import { AST_NODE_TYPES, ESLintUtils } from "@typescript-eslint/utils";
 import createRule from "../utils/createRule.js";
+import { Feature, getSettings } from "../utils/settings.js";
 
 /**
  * Rule: No Unsupported Keywords
  * Reject usage of TypeScript keywords that are not supported in AssemblyScript.
+ * Builtin types of WebAssembly features are rejected when settings.assemblyscript
+ * lists the enabled features and the required one is missing.
  */
+
+// Builtin types and the feature they require
+const featureTypes = new Map<string, Feature>([
+  ["v128", "simd"],
+  ["externref", "reference-types"],
+  ["funcref", "reference-types"],
+  ["anyref", "reference-types"],
+]);
 const noUnsupportedKeyword: ESLintUtils.RuleModule<
   string,
   [],
@@ -21,11 +32,14 @@ const noUnsupportedKeyword: ESLintUtils.RuleModule<
       noNever: "'never' is not supported in AssemblyScript.",
       noAny: "'any' is not supported in AssemblyScript.",
       noUndefined: "'undefined' is not supported in AssemblyScript.",
+      featureDisabled:
+        "'{{ name }}' requires the '{{ feature }}' feature, which is not enabled.",
     },
     schema: [],
   },
   defaultOptions: [],
   create(context) {
+    const enabledFeatures = getSettings(context).features;
     return {
       TSNeverKeyword: (node) => {
         context.report({ messageId: "noNever", node: node });
@@ -36,6 +50,23 @@ const noUnsupportedKeyword: ESLintUtils.RuleModule<
       TSUndefinedKeyword: (node) => {
         context.report({ messageId: "noUndefined", node: node });
       },
+      TSTypeReference: (node) => {
+        if (
+          !enabledFeatures ||
+          node.typeName.type !== AST_NODE_TYPES.Identifier
+        ) {
+          return;
+        }
+        const name = node.typeName.name;
+        const feature = featureTypes.get(name);
+        if (feature && !enabledFeatures.has(feature)) {
+          context.report({
+            messageId: "featureDisabled",
+            node: node,
+            data: { name, feature },
+          });
+        }
+      },
     };
   },
 });
@@ -0,0 +1,188 @@
+import { AST_NODE_TYPES, ASTUtils, TSESTree } from "@typescript-eslint/utils";
+import createRule from "../utils/createRule.js";
+import { getSettings } from "../utils/settings.js";
+
+/**
+ * Rule: No Unsupported Syntax
+ * Reject JavaScript and TypeScript constructs that AssemblyScript can't compile.
+ * Each construct has its own message and can be allowed through the options,
+ * e.g. try/catch when compiling with exception handling enabled. Features
+ * enabled in settings.assemblyscript allow the matching constructs as well.
+ */
+
+const constructs = [
+  "destructuring",
+  "optionalChaining",
+  "nullishAssignment",
+  "forIn",
+  "delete",
+  "objectAccessor",
+  "async",
+  "generator",
+  "tryCatch",
+  "symbol",
+] as const;
+
+type Construct = (typeof constructs)[number];
+
+type Options = [
+  {
+    allow?: Construct[];
+  },
+];
+
+function isFunction(node: TSESTree.Node): boolean {
+  return (
+    node.type === AST_NODE_TYPES.FunctionDeclaration ||
+    node.type === AST_NODE_TYPES.FunctionExpression ||
+    node.type === AST_NODE_TYPES.ArrowFunctionExpression
+  );
+}
+
+const noUnsupportedSyntax = createRule<Options, Construct>({
+  name: "no-unsupported-syntax",
+  meta: {
+    type: "problem",
+    docs: {
+      description: "Disallow syntax that is not supported in AssemblyScript",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allow: {
+            type: "array",
+            items: { type: "string", enum: [...constructs] },
+            uniqueItems: true,
+            description:
+              "Constructs supported by the asc version or flags in use",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      destructuring: "Destructuring is not supported in AssemblyScript.",
+      optionalChaining:
+        "Optional chaining ('?.') is not supported in AssemblyScript.",
+      nullishAssignment:
+        "Nullish assignment ('??=') is not supported in AssemblyScript.",
+      forIn: "'for...in' loops are not supported in AssemblyScript.",
+      delete: "The 'delete' operator is not supported in AssemblyScript.",
+      objectAccessor:
+        "Getters and setters on object literals are not supported in AssemblyScript. Use a class instead.",
+      async: "'async' and 'await' are not supported in AssemblyScript.",
+      generator: "Generators are not supported in AssemblyScript.",
+      tryCatch:
+        "'try' statements are not supported in AssemblyScript without exception handling.",
+      symbol: "Symbols are not supported in AssemblyScript.",
+    },
+  },
+  defaultOptions: [{ allow: [] }],
+  create(context, [options]) {
+    const allowed = new Set<Construct>(options.allow);
+    if (getSettings(context).features?.has("exception-handling")) {
+      allowed.add("tryCatch");
+    }
+
+    function report(node: TSESTree.Node, construct: Construct) {
+      if (!allowed.has(construct)) {
+        context.report({ node, messageId: construct });
+      }
+    }
+
+    function checkFunction(node: TSESTree.FunctionLike) {
+      if (node.async) {
+        report(node, "async");
+      }
+      if (node.generator) {
+        report(node, "generator");
+      }
+    }
+
+    // Only the outermost pattern is reported, e.g. once for const { a: [b] } = c
+    let patternDepth = 0;
+    function enterPattern(
+      node: TSESTree.ObjectPattern | TSESTree.ArrayPattern
+    ) {
+      if (patternDepth === 0) {
+        report(node, "destructuring");
+      }
+      patternDepth++;
+    }
+    function exitPattern() {
+      patternDepth--;
+    }
+
+    // Await inside a function is covered by the report of the async function
+    function isTopLevel(node: TSESTree.Node): boolean {
+      return !context.sourceCode.getAncestors(node).some(isFunction);
+    }
+
+    // The global Symbol, unless shadowed by a declaration
+    function isGlobalSymbol(node: TSESTree.Node): boolean {
+      if (node.type !== AST_NODE_TYPES.Identifier || node.name !== "Symbol") {
+        return false;
+      }
+      const variable = ASTUtils.findVariable(
+        context.sourceCode.getScope(node),
+        node
+      );
+      return !variable || variable.defs.length === 0;
+    }
+
+    return {
+      ObjectPattern: enterPattern,
+      "ObjectPattern:exit": exitPattern,
+      ArrayPattern: enterPattern,
+      "ArrayPattern:exit": exitPattern,
+      ChainExpression: (node) => report(node, "optionalChaining"),
+      AssignmentExpression: (node) => {
+        if (node.operator === "??=") {
+          report(node, "nullishAssignment");
+        }
+      },
+      ForInStatement: (node) => report(node, "forIn"),
+      UnaryExpression: (node) => {
+        if (node.operator === "delete") {
+          report(node, "delete");
+        }
+      },
+      Property: (node) => {
+        if (
+          (node.kind === "get" || node.kind === "set") &&
+          node.parent.type === AST_NODE_TYPES.ObjectExpression
+        ) {
+          report(node, "objectAccessor");
+        }
+      },
+      FunctionDeclaration: checkFunction,
+      FunctionExpression: checkFunction,
+      ArrowFunctionExpression: checkFunction,
+      AwaitExpression: (node) => {
+        if (isTopLevel(node)) {
+          report(node, "async");
+        }
+      },
+      ForOfStatement: (node) => {
+        if (node.await && isTopLevel(node)) {
+          report(node, "async");
+        }
+      },
+      TryStatement: (node) => report(node, "tryCatch"),
+      TSSymbolKeyword: (node) => report(node, "symbol"),
+      CallExpression: (node) => {
+        if (isGlobalSymbol(node.callee)) {
+          report(node, "symbol");
+        }
+      },
+      MemberExpression: (node) => {
+        if (isGlobalSymbol(node.object)) {
+          report(node, "symbol");
+        }
+      },
+    };
+  },
+});
+
+export default noUnsupportedSyntax;
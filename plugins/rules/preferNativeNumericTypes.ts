@@ -0,0 +1,232 @@
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import { RuleFixer, Scope } from "@typescript-eslint/utils/ts-eslint";
+import createRule from "../utils/createRule.js";
+import {
+  getCommonType,
+  isFloatLiteral,
+  resolveNumericType,
+} from "../utils/numericTypes.js";
+
+/**
+ * Rule: Prefer Native Numeric Types
+ * AssemblyScript treats `number` as `f64`, so integer code using it silently does float math.
+ * `number` annotations are reported with suggestions for the native types matching how the
+ * value is used, e.g. `i32` for loop counters, array indices and bitwise operands.
+ * Operations mixing integer and float values which asc rejects are reported as well.
+ */
+
+type MessageIds =
+  | "preferNativeType"
+  | "preferIntegerType"
+  | "useType"
+  | "mixedTypes";
+
+type Usage = "a loop counter" | "an array index" | "a bitwise operand";
+
+// Operators whose operands are converted to a common type
+const binaryOperators = new Set([
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "**",
+  "&",
+  "|",
+  "^",
+  "<<",
+  ">>",
+  ">>>",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "==",
+  "!=",
+  "===",
+  "!==",
+]);
+
+const bitwiseOperators = new Set(["&", "|", "^", "<<", ">>", ">>>", "~"]);
+
+const bitwiseAssignmentOperators = new Set([
+  "&=",
+  "|=",
+  "^=",
+  "<<=",
+  ">>=",
+  ">>>=",
+]);
+
+// Check if a variable is declared in the head of a for loop, e.g. for (let i: number = 0; ...)
+function isForInit(variable: Scope.Variable): boolean {
+  const definition = variable.defs[0];
+  return (
+    definition?.node.type === AST_NODE_TYPES.VariableDeclarator &&
+    definition.node.parent.parent.type === AST_NODE_TYPES.ForStatement &&
+    definition.node.parent.parent.init === definition.node.parent
+  );
+}
+
+// Find how a variable annotated with number is used
+function getUsage(variable: Scope.Variable): {
+  usage: Usage | null;
+  unsigned: boolean;
+  float: boolean;
+} {
+  let usage: Usage | null = isForInit(variable) ? "a loop counter" : null;
+  let unsigned = false;
+  const definition = variable.defs[0];
+  let float =
+    definition?.node.type === AST_NODE_TYPES.VariableDeclarator &&
+    isFloatLiteral(definition.node.init);
+  for (const reference of variable.references) {
+    const identifier = reference.identifier;
+    const parent = identifier.parent;
+    if (parent.type === AST_NODE_TYPES.UpdateExpression) {
+      usage ??= "a loop counter";
+    } else if (
+      parent.type === AST_NODE_TYPES.MemberExpression &&
+      parent.computed &&
+      parent.property === identifier
+    ) {
+      usage ??= "an array index";
+    } else if (
+      (parent.type === AST_NODE_TYPES.BinaryExpression ||
+        parent.type === AST_NODE_TYPES.UnaryExpression) &&
+      bitwiseOperators.has(parent.operator)
+    ) {
+      usage ??= "a bitwise operand";
+      unsigned ||= parent.operator === ">>>";
+    } else if (
+      parent.type === AST_NODE_TYPES.AssignmentExpression &&
+      parent.left === identifier
+    ) {
+      if (bitwiseAssignmentOperators.has(parent.operator)) {
+        usage ??= "a bitwise operand";
+        unsigned ||= parent.operator === ">>>=";
+      }
+      float ||= parent.operator === "/=" || isFloatLiteral(parent.right);
+    }
+  }
+  return { usage, unsigned, float };
+}
+
+export default createRule<[], MessageIds>({
+  name: "prefer-native-numeric-types",
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Prefer AssemblyScript's native numeric types over 'number' and disallow implicit float/int mixing",
+    },
+    hasSuggestions: true,
+    messages: {
+      preferNativeType:
+        "'number' is 'f64' in AssemblyScript, use an explicit native type instead.",
+      preferIntegerType:
+        "'number' is 'f64' in AssemblyScript, but this value is used as {{ usage }}. Use '{{ type }}' instead.",
+      useType: "Use '{{ type }}'.",
+      mixedTypes:
+        "asc rejects mixing '{{ left }}' and '{{ right }}' implicitly, convert one operand explicitly.",
+    },
+    schema: [], // no options
+  },
+  defaultOptions: [],
+  create(context) {
+    const parserServices = ESLintUtils.getParserServices(context);
+
+    function reportNumber(node: TSESTree.TSNumberKeyword) {
+      const annotated = node.parent.parent;
+      const variable =
+        node.parent.type === AST_NODE_TYPES.TSTypeAnnotation &&
+        annotated?.type === AST_NODE_TYPES.Identifier
+          ? ASTUtils.findVariable(
+              context.sourceCode.getScope(annotated),
+              annotated
+            )
+          : null;
+      const { usage, unsigned, float } = variable
+        ? getUsage(variable)
+        : { usage: null, unsigned: false, float: false };
+
+      // Integer types first for integer usage, f64 keeps the current behavior
+      const types =
+        usage && !float
+          ? unsigned
+            ? ["u32", "i32", "f64"]
+            : ["i32", "u32", "f64"]
+          : float
+            ? ["f64"]
+            : ["f64", "i32"];
+      const suggest = types.map((type) => ({
+        messageId: "useType" as const,
+        data: { type },
+        fix: (fixer: RuleFixer) => fixer.replaceText(node, type),
+      }));
+
+      if (usage && !float) {
+        context.report({
+          node,
+          messageId: "preferIntegerType",
+          data: { usage, type: types[0] },
+          suggest,
+        });
+      } else {
+        context.report({ node, messageId: "preferNativeType", suggest });
+      }
+    }
+
+    // Report operands mixing integer and float types without a lossless conversion
+    function checkMixing(
+      node: TSESTree.Node,
+      leftNode: TSESTree.Node,
+      rightNode: TSESTree.Node,
+      compound: boolean
+    ) {
+      const left = resolveNumericType(parserServices, leftNode);
+      const right = resolveNumericType(parserServices, rightNode);
+      if (
+        !left ||
+        !right ||
+        (left.kind === "float") === (right.kind === "float")
+      ) {
+        return;
+      }
+      // The result of a compound assignment is converted back to the type of the target
+      const common = getCommonType(left, right);
+      if (common === null || (compound && common !== left)) {
+        context.report({
+          node,
+          messageId: "mixedTypes",
+          data: { left: left.name, right: right.name },
+        });
+      }
+    }
+
+    return {
+      TSNumberKeyword: reportNumber,
+
+      BinaryExpression(node) {
+        if (binaryOperators.has(node.operator)) {
+          checkMixing(node, node.left, node.right, false);
+        }
+      },
+
+      AssignmentExpression(node) {
+        // Compound assignments like +=, the right side of = is a conversion
+        if (
+          node.operator !== "=" &&
+          binaryOperators.has(node.operator.slice(0, -1))
+        ) {
+          checkMixing(node, node.left, node.right, true);
+        }
+      },
+    };
+  },
+});
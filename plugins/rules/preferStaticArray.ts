@@ -0,0 +1,273 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/utils";
+import { RuleFixer } from "@typescript-eslint/utils/ts-eslint";
+import createRule from "../utils/createRule.js";
+import {
+  getArrayType,
+  getInitialLength,
+  isArrayInitializer,
+  isFixedLengthUse,
+} from "../utils/arrays.js";
+
+/**
+ * Rule: Prefer Static Array
+ * StaticArray<T> stores its elements inline and has a fixed length, it avoids the
+ * indirection through the backing buffer of Array<T>. Local variables and private
+ * instance fields holding an Array<T> are reported when every reference only reads an
+ * element or the length, or writes an element in range, i.e. the array is never pushed
+ * to, popped, spliced, resized, grown by writing past its end or passed on.
+ */
+
+type MessageIds = "preferStaticArray" | "useStaticArray";
+
+// A variable or field holding an array and the values assigned to it
+interface ArrayBinding {
+  name: string;
+  node: TSESTree.Node;
+  typeAnnotation: TSESTree.TypeNode | undefined;
+  initializers: (TSESTree.ArrayExpression | TSESTree.NewExpression)[];
+  // References which neither declare nor assign the array
+  uses: TSESTree.Node[];
+}
+
+// Fields of a class and the member expressions accessing them in its body
+interface ClassInfo {
+  fields: TSESTree.PropertyDefinition[];
+  accesses: Map<string, TSESTree.MemberExpression[]>;
+}
+
+// Name of a field or member, private names keep their `#`
+function getMemberName(
+  key: TSESTree.Expression | TSESTree.PrivateIdentifier
+): string | null {
+  if (key.type === AST_NODE_TYPES.PrivateIdentifier) {
+    return `#${key.name}`;
+  }
+  return key.type === AST_NODE_TYPES.Identifier ? key.name : null;
+}
+
+// Shortest known length of the arrays assigned, null if any is unknown
+function getMinimumLength(
+  initializers: (TSESTree.ArrayExpression | TSESTree.NewExpression)[]
+): number | null {
+  const lengths = initializers.map(getInitialLength);
+  return lengths.length > 0 &&
+    lengths.every((length): length is number => length !== null)
+    ? Math.min(...lengths)
+    : null;
+}
+
+// Check if a node is the target of a plain assignment of a new array, e.g. values = [1, 2]
+function getAssignedArray(
+  node: TSESTree.Node
+): TSESTree.ArrayExpression | TSESTree.NewExpression | null {
+  const parent = node.parent;
+  return parent?.type === AST_NODE_TYPES.AssignmentExpression &&
+    parent.operator === "=" &&
+    parent.left === node &&
+    isArrayInitializer(parent.right)
+    ? parent.right
+    : null;
+}
+
+// Element type from the annotation, or from the type argument of a constructor
+function getElementType(binding: ArrayBinding): TSESTree.TypeNode | null {
+  if (binding.typeAnnotation) {
+    const arrayType = getArrayType(binding.typeAnnotation);
+    return arrayType?.kind === "Array" ? arrayType.elementType : null;
+  }
+  for (const initializer of binding.initializers) {
+    const typeArguments =
+      initializer.type === AST_NODE_TYPES.NewExpression
+        ? initializer.typeArguments?.params
+        : undefined;
+    if (typeArguments?.length === 1) {
+      return typeArguments[0];
+    }
+  }
+  return null;
+}
+
+export default createRule<[], MessageIds>({
+  name: "prefer-static-array",
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Prefer StaticArray<T> for arrays which are only indexed and whose length never changes",
+    },
+    hasSuggestions: true,
+    messages: {
+      preferStaticArray:
+        "'{{ name }}' is only indexed and its length never changes, StaticArray<{{ type }}> avoids the indirection of Array<{{ type }}>.",
+      useStaticArray: "Convert '{{ name }}' to StaticArray<{{ type }}>.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const sourceCode = context.sourceCode;
+    const classStack: ClassInfo[] = [];
+
+    function check(binding: ArrayBinding) {
+      const elementType = getElementType(binding);
+      const length = getMinimumLength(binding.initializers);
+      if (
+        !elementType ||
+        !binding.uses.every((use) => isFixedLengthUse(use, length, sourceCode))
+      ) {
+        return;
+      }
+      const type = sourceCode.getText(elementType);
+      const staticType = `StaticArray<${type}>`;
+      const { name, typeAnnotation, initializers } = binding;
+      context.report({
+        node: binding.node,
+        messageId: "preferStaticArray",
+        data: { name, type },
+        suggest: [
+          {
+            messageId: "useStaticArray",
+            data: { name, type },
+            fix(fixer: RuleFixer) {
+              const fixes = typeAnnotation
+                ? [fixer.replaceText(typeAnnotation, staticType)]
+                : [];
+              // Array literals keep their elements, constructors keep their length
+              for (const initializer of initializers) {
+                if (initializer.type === AST_NODE_TYPES.NewExpression) {
+                  const length = initializer.arguments[0]
+                    ? sourceCode.getText(initializer.arguments[0])
+                    : "0";
+                  fixes.push(
+                    fixer.replaceText(
+                      initializer,
+                      `new ${staticType}(${length})`
+                    )
+                  );
+                } else if (
+                  initializer.type === AST_NODE_TYPES.ArrayExpression &&
+                  initializer.elements.length === 0
+                ) {
+                  fixes.push(
+                    fixer.replaceText(initializer, `new ${staticType}(0)`)
+                  );
+                }
+              }
+              return fixes;
+            },
+          },
+        ],
+      });
+    }
+
+    // Check the accesses of a private field, other instances can't be tracked
+    function checkField(
+      field: TSESTree.PropertyDefinition,
+      accesses: TSESTree.MemberExpression[]
+    ) {
+      const initializers: ArrayBinding["initializers"] = [];
+      const uses: TSESTree.Node[] = [];
+      if (field.value) {
+        if (!isArrayInitializer(field.value)) {
+          return;
+        }
+        initializers.push(field.value);
+      }
+      for (const access of accesses) {
+        if (access.object.type !== AST_NODE_TYPES.ThisExpression) {
+          return;
+        }
+        const assigned = getAssignedArray(access);
+        if (assigned) {
+          initializers.push(assigned);
+        } else {
+          uses.push(access);
+        }
+      }
+      check({
+        name: getMemberName(field.key)!,
+        node: field.key,
+        typeAnnotation: field.typeAnnotation?.typeAnnotation,
+        initializers,
+        uses,
+      });
+    }
+
+    return {
+      VariableDeclarator(node) {
+        const declaration = node.parent;
+        if (
+          node.id.type !== AST_NODE_TYPES.Identifier ||
+          declaration.declare ||
+          declaration.parent.type === AST_NODE_TYPES.ExportNamedDeclaration
+        ) {
+          return;
+        }
+        const initializers: ArrayBinding["initializers"] = [];
+        const uses: TSESTree.Node[] = [];
+        if (node.init) {
+          if (!isArrayInitializer(node.init)) {
+            return;
+          }
+          initializers.push(node.init);
+        }
+        const variable = sourceCode.getDeclaredVariables(node)[0];
+        for (const reference of variable.references) {
+          if (reference.init) {
+            continue;
+          }
+          const assigned = reference.isWrite()
+            ? getAssignedArray(reference.identifier)
+            : null;
+          if (assigned) {
+            initializers.push(assigned);
+          } else if (reference.isWrite()) {
+            return;
+          } else {
+            uses.push(reference.identifier);
+          }
+        }
+        check({
+          name: node.id.name,
+          node: node.id,
+          typeAnnotation: node.id.typeAnnotation?.typeAnnotation,
+          initializers,
+          uses,
+        });
+      },
+
+      ClassBody() {
+        classStack.push({ fields: [], accesses: new Map() });
+      },
+
+      PropertyDefinition(node) {
+        if (
+          !node.static &&
+          !node.computed &&
+          (node.accessibility === "private" ||
+            node.key.type === AST_NODE_TYPES.PrivateIdentifier)
+        ) {
+          classStack.at(-1)!.fields.push(node);
+        }
+      },
+
+      MemberExpression(node) {
+        const name = node.computed ? null : getMemberName(node.property);
+        const classInfo = classStack.at(-1);
+        if (name === null || !classInfo) {
+          return;
+        }
+        const accesses = classInfo.accesses.get(name) ?? [];
+        accesses.push(node);
+        classInfo.accesses.set(name, accesses);
+      },
+
+      "ClassBody:exit"() {
+        const { fields, accesses } = classStack.pop()!;
+        for (const field of fields) {
+          checkField(field, accesses.get(getMemberName(field.key)!) ?? []);
+        }
+      },
+    };
+  },
+});
@@ -1,11 +1,110 @@
-import { AST_NODE_TYPES } from "@typescript-eslint/utils";
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  ParserServicesWithTypeInformation,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  RuleFix,
+  RuleFixer,
+  RuleListener,
+} from "@typescript-eslint/utils/ts-eslint";
 import createRule from "../utils/createRule.js";
+import { isFloatLiteral } from "../utils/numericTypes.js";
+import ts from "typescript";
 
 /**
  * Rule: Enforce explicit type annotations for floating point literals and uninitialized variables.
+ * Float literals and arrays are fixed with the default float type, the other float type is
+ * offered as suggestion. Uninitialized variables get a suggestion with the type inferred
+ * from later assignments when type information is available.
+ * Options extend the checks to function signatures, class fields and integer literals
+ * which don't fit into the default i32 type.
  */
 
-export default createRule({
+type FloatType = "f32" | "f64";
+
+type MessageIds =
+  | "missingType"
+  | "addType"
+  | "missingReturnType"
+  | "missingParameterType"
+  | "missingFieldType"
+  | "largeInteger";
+
+type Options = [
+  {
+    defaultFloatType?: FloatType;
+    exportedReturnTypes?: boolean;
+    parameters?: boolean;
+    classFields?: boolean;
+    largeIntegers?: boolean;
+  },
+];
+
+const i32Min = -(2n ** 31n);
+const i32Max = 2n ** 31n - 1n;
+const i64Min = -(2n ** 63n);
+const i64Max = 2n ** 63n - 1n;
+const u64Max = 2n ** 64n - 1n;
+
+// Get the value of a number literal, including negative literals like -1.5
+function getNumberLiteral(node: TSESTree.Node): number | null {
+  if (node.type === AST_NODE_TYPES.Literal && typeof node.value === "number") {
+    return node.value;
+  }
+  if (
+    node.type === AST_NODE_TYPES.UnaryExpression &&
+    (node.operator === "-" || node.operator === "+")
+  ) {
+    return getNumberLiteral(node.argument);
+  }
+  return null;
+}
+
+// Get the exact value of an integer literal, as large literals lose precision as numbers
+function getIntegerLiteral(node: TSESTree.Node): bigint | null {
+  if (
+    node.type === AST_NODE_TYPES.Literal &&
+    typeof node.value === "number" &&
+    Number.isInteger(node.value)
+  ) {
+    const raw = node.raw.replaceAll("_", "");
+    // Exponent notation (e.g. 1e10) is a float literal in AssemblyScript
+    return /^(0[box][\da-f]+|\d+)$/i.test(raw) ? BigInt(raw) : null;
+  }
+  if (node.type === AST_NODE_TYPES.UnaryExpression && node.operator === "-") {
+    const value = getIntegerLiteral(node.argument);
+    return value === null ? null : -value;
+  }
+  return null;
+}
+
+// Get the parameter with a default value, e.g. b = 1 in f(a: i32, b = 1)
+function getDefaultParameter(
+  node: TSESTree.Parameter
+): TSESTree.AssignmentPattern | null {
+  const parameter =
+    node.type === AST_NODE_TYPES.TSParameterProperty ? node.parameter : node;
+  return parameter.type === AST_NODE_TYPES.AssignmentPattern ? parameter : null;
+}
+
+function isFunction(
+  node: TSESTree.Node | null
+): node is TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression {
+  return (
+    node?.type === AST_NODE_TYPES.FunctionExpression ||
+    node?.type === AST_NODE_TYPES.ArrowFunctionExpression
+  );
+}
+
+// Fix adding a type annotation to a variable
+function annotate(node: TSESTree.VariableDeclarator, type: string) {
+  return (fixer: RuleFixer): RuleFix =>
+    fixer.insertTextAfter(node.id, `: ${type}`);
+}
+
+export default createRule<Options, MessageIds>({
   name: "specify-type",
   meta: {
     type: "problem",
@@ -13,15 +112,203 @@ export default createRule({
       description:
         "Enforce explicit type annotations for variable declarations",
     },
+    fixable: "code",
+    hasSuggestions: true,
     messages: {
       missingType:
         "Variable declaration should have an explicit type annotation",
+      addType: "Annotate with '{{ type }}'.",
+      missingReturnType:
+        "Exported function should have an explicit return type",
+      missingParameterType: "Parameter should have an explicit type annotation",
+      missingFieldType: "Class field should have an explicit type annotation",
+      largeInteger:
+        "Integer literal {{ value }} doesn't fit into i32 and should have an explicit type annotation",
     },
-    schema: [], // no options
+    schema: [
+      {
+        type: "object",
+        properties: {
+          defaultFloatType: {
+            type: "string",
+            enum: ["f32", "f64"],
+            description: "Float type inserted by the fix for float literals",
+          },
+          exportedReturnTypes: {
+            type: "boolean",
+            description: "Require explicit return types on exported functions",
+          },
+          parameters: {
+            type: "boolean",
+            description:
+              "Require type annotations on parameters with default values",
+          },
+          classFields: {
+            type: "boolean",
+            description: "Require type annotations on class fields",
+          },
+          largeIntegers: {
+            type: "boolean",
+            description:
+              "Require type annotations for integer literals outside the i32 range",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
-  defaultOptions: [],
-  create(context) {
-    return {
+  defaultOptions: [
+    {
+      defaultFloatType: "f64",
+      exportedReturnTypes: false,
+      parameters: false,
+      classFields: false,
+      largeIntegers: false,
+    },
+  ],
+  create(context, [options]) {
+    const {
+      defaultFloatType,
+      exportedReturnTypes,
+      parameters,
+      classFields,
+      largeIntegers,
+    } = options as Required<Options[0]>;
+    const alternativeFloatType = defaultFloatType === "f64" ? "f32" : "f64";
+    // Type information is optional, it's only needed to infer types of uninitialized variables
+    const parserServices = ESLintUtils.getParserServices(context, true);
+
+    // Report a float literal or array, fixing it with the default float type
+    function reportFloat(node: TSESTree.VariableDeclarator, suffix: string) {
+      if (node.id.type !== AST_NODE_TYPES.Identifier) {
+        context.report({ node, messageId: "missingType" });
+        return;
+      }
+      const alternative = alternativeFloatType + suffix;
+      context.report({
+        node,
+        messageId: "missingType",
+        fix: annotate(node, defaultFloatType + suffix),
+        suggest: [
+          {
+            messageId: "addType",
+            data: { type: alternative },
+            fix: annotate(node, alternative),
+          },
+        ],
+      });
+    }
+
+    // AssemblyScript type of a value assigned to a variable
+    function getAssignedType(
+      services: ParserServicesWithTypeInformation,
+      node: TSESTree.Expression
+    ): string | null {
+      if (getNumberLiteral(node) !== null) {
+        return isFloatLiteral(node) ? defaultFloatType : "i32";
+      }
+      const checker = services.program.getTypeChecker();
+      const type = checker.getBaseTypeOfLiteralType(
+        services.getTypeAtLocation(node)
+      );
+      if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+        return null;
+      }
+      // Numbers which are not literals are f64 in AssemblyScript
+      if (type.flags & ts.TypeFlags.Number) {
+        return "f64";
+      }
+      if (type.flags & ts.TypeFlags.BooleanLike) {
+        return "bool";
+      }
+      return checker.typeToString(type);
+    }
+
+    // Infer the type of an uninitialized variable from its later assignments
+    function inferType(node: TSESTree.VariableDeclarator): string | null {
+      const services = parserServices;
+      const variable = context.sourceCode.getDeclaredVariables(node)[0];
+      if (!services.program || !variable) {
+        return null;
+      }
+      const types = new Set<string>();
+      for (const reference of variable.references) {
+        const parent = reference.identifier.parent;
+        if (
+          parent.type !== AST_NODE_TYPES.AssignmentExpression ||
+          parent.operator !== "=" ||
+          parent.left !== reference.identifier
+        ) {
+          continue;
+        }
+        const type = getAssignedType(services, parent.right);
+        if (type === null) {
+          return null;
+        }
+        types.add(type);
+      }
+      // Integers assigned next to floats are converted to the float type
+      if (types.has(defaultFloatType) || types.has(alternativeFloatType)) {
+        types.delete("i32");
+      }
+      // Nullable reference types, e.g. Foo | null
+      const nullable = types.delete("null");
+      if (types.size !== 1) {
+        return null;
+      }
+      const [type] = types;
+      return nullable ? `${type} | null` : type;
+    }
+
+    // Report an integer literal outside the i32 range, suggesting the 64-bit types it fits in
+    function reportLargeInteger(
+      node: TSESTree.VariableDeclarator,
+      value: bigint
+    ) {
+      const types = [];
+      if (value >= i64Min && value <= i64Max) {
+        types.push("i64");
+      }
+      if (value >= 0n && value <= u64Max) {
+        types.push("u64");
+      }
+      context.report({
+        node,
+        messageId: "largeInteger",
+        data: { value: String(value) },
+        suggest:
+          node.id.type === AST_NODE_TYPES.Identifier
+            ? types.map((type) => ({
+                messageId: "addType" as const,
+                data: { type },
+                fix: annotate(node, type),
+              }))
+            : [],
+      });
+    }
+
+    function checkParameters(node: TSESTree.FunctionLike) {
+      for (const parameter of node.params) {
+        const defaultParameter = getDefaultParameter(parameter);
+        if (defaultParameter && !defaultParameter.left.typeAnnotation) {
+          context.report({
+            node: parameter,
+            messageId: "missingParameterType",
+          });
+        }
+      }
+    }
+
+    function checkReturnType(
+      node: TSESTree.FunctionLike,
+      reportNode: TSESTree.Node = node.id ?? node
+    ) {
+      if (!node.returnType) {
+        context.report({ node: reportNode, messageId: "missingReturnType" });
+      }
+    }
+
+    const listener: RuleListener = {
       VariableDeclarator(node) {
         // Skip if there's already a type annotation
         if (node.id.typeAnnotation) {
@@ -30,23 +317,29 @@ export default createRule({
 
         // Always require type annotation when there's no initialization
         if (!node.init) {
+          const isLoopVariable =
+            node.parent.parent.type === AST_NODE_TYPES.ForInStatement ||
+            node.parent.parent.type === AST_NODE_TYPES.ForOfStatement;
+          const type = isLoopVariable ? null : inferType(node);
           context.report({
             node,
             messageId: "missingType",
+            suggest: type
+              ? [
+                  {
+                    messageId: "addType",
+                    data: { type },
+                    fix: annotate(node, type),
+                  },
+                ]
+              : [],
           });
           return;
         }
 
         // For floating point literals, require explicit type annotation
-        if (
-          node.init.type === AST_NODE_TYPES.Literal &&
-          typeof node.init.value === "number" &&
-          !Number.isInteger(node.init.value)
-        ) {
-          context.report({
-            node,
-            messageId: "missingType",
-          });
+        if (isFloatLiteral(node.init)) {
+          reportFloat(node, "");
           return;
         }
 
@@ -54,19 +347,59 @@ export default createRule({
         if (
           node.init.type === AST_NODE_TYPES.ArrayExpression &&
           node.init.elements.some(
-            (element) =>
-              element !== null &&
-              element.type === AST_NODE_TYPES.Literal &&
-              typeof element.value === "number" &&
-              !Number.isInteger(element.value)
+            (element) => element !== null && isFloatLiteral(element)
           )
         ) {
-          context.report({
-            node,
-            messageId: "missingType",
-          });
+          // Only arrays of numbers can be fixed, others need a manual annotation
+          if (
+            node.init.elements.every(
+              (element) =>
+                element !== null && getNumberLiteral(element) !== null
+            )
+          ) {
+            reportFloat(node, "[]");
+          } else {
+            context.report({ node, messageId: "missingType" });
+          }
+          return;
+        }
+
+        const integer = largeIntegers ? getIntegerLiteral(node.init) : null;
+        if (integer !== null && (integer < i32Min || integer > i32Max)) {
+          reportLargeInteger(node, integer);
         }
       },
     };
+
+    if (parameters) {
+      listener[
+        "FunctionDeclaration, FunctionExpression, ArrowFunctionExpression, TSDeclareFunction, TSEmptyBodyFunctionExpression"
+      ] = checkParameters;
+    }
+
+    if (exportedReturnTypes) {
+      // Example: export function f() {}, export default function () {}
+      listener[
+        "ExportNamedDeclaration > FunctionDeclaration, ExportDefaultDeclaration > FunctionDeclaration, ExportNamedDeclaration > TSDeclareFunction"
+      ] = checkReturnType;
+      // Example: export const f = () => {}
+      listener[
+        "ExportNamedDeclaration > VariableDeclaration > VariableDeclarator"
+      ] = (node: TSESTree.VariableDeclarator) => {
+        if (isFunction(node.init) && !node.id.typeAnnotation) {
+          checkReturnType(node.init, node.id);
+        }
+      };
+    }
+
+    if (classFields) {
+      listener.PropertyDefinition = (node) => {
+        if (!node.typeAnnotation) {
+          context.report({ node: node.key, messageId: "missingFieldType" });
+        }
+      };
+    }
+
+    return listener;
   },
 });
@@ -0,0 +1,254 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import ts from "typescript";
+import createRule from "../utils/createRule.js";
+import {
+  Decorator,
+  getDeclarationDecorators,
+  getDecorators,
+} from "../utils/decorators.js";
+
+/**
+ * Rule: Valid Decorator
+ * AssemblyScript gives decorators like `@inline` and `@external` a meaning of their own,
+ * but misspelled or misplaced ones only fail at compile time. Reports unknown decorators,
+ * decorators on declarations they don't apply to, invalid arguments and managed fields
+ * of `@unmanaged` classes.
+ */
+
+type Target = "class" | "method" | "field" | "function" | "variable";
+
+const targetNames: Record<Target, string> = {
+  class: "classes",
+  method: "methods",
+  field: "fields",
+  function: "functions",
+  variable: "variables",
+};
+
+type MessageIds =
+  | "unknownDecorator"
+  | "invalidPlacement"
+  | "invalidArguments"
+  | "managedField";
+
+type Options = [
+  {
+    allow?: string[];
+  },
+];
+
+interface DecoratorSpec {
+  targets: Target[];
+  // Number of string literal arguments, null when the decorator is not called
+  arguments: [min: number, max: number] | null;
+  usage: string;
+}
+
+function decorator(
+  targets: Target[],
+  args: DecoratorSpec["arguments"],
+  usage: string
+): DecoratorSpec {
+  return { targets, arguments: args, usage };
+}
+
+const operatorSpec = decorator(["method"], [1, 1], '@operator("+")');
+
+// Decorators known to asc and where they apply
+const decorators = new Map<string, DecoratorSpec>([
+  ["global", decorator(["function", "variable", "class"], null, "@global")],
+  [
+    "inline",
+    decorator(["function", "method", "variable", "field"], null, "@inline"),
+  ],
+  ["lazy", decorator(["variable", "field"], null, "@lazy")],
+  ["unmanaged", decorator(["class"], null, "@unmanaged")],
+  ["final", decorator(["class"], null, "@final")],
+  ["unsafe", decorator(["function", "method"], null, "@unsafe")],
+  [
+    "external",
+    decorator(
+      ["function", "method", "variable"],
+      [1, 2],
+      '@external("module", "name")'
+    ),
+  ],
+  [
+    "external.js",
+    decorator(["function", "method"], [1, 1], '@external.js("code")'),
+  ],
+  ["operator", operatorSpec],
+  ["operator.binary", { ...operatorSpec, usage: '@operator.binary("+")' }],
+  ["operator.prefix", { ...operatorSpec, usage: '@operator.prefix("-")' }],
+  ["operator.postfix", { ...operatorSpec, usage: '@operator.postfix("++")' }],
+]);
+
+function getTarget(node: TSESTree.Node): Target | null {
+  switch (node.type) {
+    case AST_NODE_TYPES.ClassDeclaration:
+    case AST_NODE_TYPES.ClassExpression:
+      return "class";
+    case AST_NODE_TYPES.MethodDefinition:
+    case AST_NODE_TYPES.TSAbstractMethodDefinition:
+      return "method";
+    case AST_NODE_TYPES.PropertyDefinition:
+    case AST_NODE_TYPES.TSAbstractPropertyDefinition:
+      return "field";
+    case AST_NODE_TYPES.FunctionDeclaration:
+    case AST_NODE_TYPES.TSDeclareFunction:
+      return "function";
+    case AST_NODE_TYPES.VariableDeclaration:
+      return "variable";
+    default:
+      return null;
+  }
+}
+
+function isValidArguments(
+  decorator: Decorator,
+  spec: DecoratorSpec["arguments"]
+): boolean {
+  if (!spec || !decorator.arguments) {
+    return spec === decorator.arguments;
+  }
+  const [min, max] = spec;
+  return (
+    decorator.arguments.length >= min &&
+    decorator.arguments.length <= max &&
+    decorator.arguments.every((argument) => argument !== null)
+  );
+}
+
+// Check if a class is declared @unmanaged, e.g. the type of a field
+function isUnmanagedClass(declaration: ts.Declaration): boolean {
+  return (
+    ts.isClassDeclaration(declaration) &&
+    getDeclarationDecorators(declaration).some(
+      (decorator) => decorator.name === "unmanaged"
+    )
+  );
+}
+
+export default createRule<Options, MessageIds>({
+  name: "valid-decorator",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow unknown and misplaced AssemblyScript decorators and invalid decorator arguments",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allow: {
+            type: "array",
+            items: { type: "string" },
+            uniqueItems: true,
+            description:
+              "Names of additional decorators, e.g. of transforms, which are not checked",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      unknownDecorator: "'@{{ name }}' is not an AssemblyScript decorator.",
+      invalidPlacement:
+        "'@{{ name }}' can't be used on a {{ target }}, only on {{ targets }}.",
+      invalidArguments:
+        "Invalid arguments for '@{{ name }}', use '{{ usage }}'.",
+      managedField:
+        "'{{ field }}' holds a managed reference, which an '@unmanaged' class can't contain. Use a native type or another '@unmanaged' class.",
+    },
+  },
+  defaultOptions: [{ allow: [] }],
+  create(context, [options]) {
+    const allowed = new Set(options.allow);
+    const parserServices = ESLintUtils.getParserServices(context, true);
+
+    // Fields of managed types like string, arrays or managed classes
+    function checkUnmanagedFields(node: TSESTree.ClassDeclaration) {
+      if (!parserServices.program) {
+        return;
+      }
+      const checker = parserServices.program.getTypeChecker();
+      for (const member of node.body.body) {
+        if (
+          member.type !== AST_NODE_TYPES.PropertyDefinition ||
+          member.static ||
+          member.key.type !== AST_NODE_TYPES.Identifier
+        ) {
+          continue;
+        }
+        const type = checker.getNonNullableType(
+          parserServices.getTypeAtLocation(member)
+        );
+        const managed =
+          type.flags & ts.TypeFlags.StringLike ||
+          (type.flags & ts.TypeFlags.Object &&
+            !type.getSymbol()?.declarations?.some(isUnmanagedClass));
+        if (managed) {
+          context.report({
+            node: member,
+            messageId: "managedField",
+            data: { field: member.key.name },
+          });
+        }
+      }
+    }
+
+    function check(node: TSESTree.Node) {
+      const target = getTarget(node);
+      if (!target) {
+        return;
+      }
+      for (const decorator of getDecorators(parserServices, node)) {
+        const { name, loc } = decorator;
+        if (allowed.has(name)) {
+          continue;
+        }
+        const spec = decorators.get(name);
+        if (!spec) {
+          context.report({
+            loc,
+            messageId: "unknownDecorator",
+            data: { name },
+          });
+        } else if (!spec.targets.includes(target)) {
+          context.report({
+            loc,
+            messageId: "invalidPlacement",
+            data: {
+              name,
+              target,
+              targets: spec.targets
+                .map((target) => targetNames[target])
+                .join(", "),
+            },
+          });
+        } else if (!isValidArguments(decorator, spec.arguments)) {
+          context.report({
+            loc,
+            messageId: "invalidArguments",
+            data: { name, usage: spec.usage },
+          });
+        } else if (
+          name === "unmanaged" &&
+          node.type === AST_NODE_TYPES.ClassDeclaration
+        ) {
+          checkUnmanagedFields(node);
+        }
+      }
+    }
+
+    return {
+      "ClassDeclaration, ClassExpression, MethodDefinition, TSAbstractMethodDefinition, PropertyDefinition, TSAbstractPropertyDefinition, FunctionDeclaration, TSDeclareFunction, VariableDeclaration":
+        check,
+    };
+  },
+});
@@ -0,0 +1,122 @@
+import { AST_NODE_TYPES, ESLintUtils } from "@typescript-eslint/utils";
+import createRule from "../utils/createRule.js";
+import { getDecorators } from "../utils/decorators.js";
+
+/**
+ * Rule: Valid Operator Overload
+ * Methods decorated with `@operator` overload an operator for instances of their class.
+ * Reports tokens which can't be overloaded and methods whose parameters don't match the
+ * operands of the operator, e.g. a binary instance operator with two parameters.
+ */
+
+type MessageIds = "unknownOperator" | "wrongParameterCount";
+
+type OperatorKind = "binary" | "prefix" | "postfix";
+
+// Overloadable tokens with their number of operands, including the instance
+const operators: Record<OperatorKind, Map<string, number>> = {
+  binary: new Map([
+    ["[]", 2],
+    ["[]=", 3],
+    ["{}", 2],
+    ["{}=", 3],
+    ...[
+      "==",
+      "!=",
+      ">",
+      ">=",
+      "<",
+      "<=",
+      ">>",
+      ">>>",
+      "<<",
+      "&",
+      "|",
+      "^",
+      "+",
+      "-",
+      "*",
+      "**",
+      "/",
+      "%",
+    ].map((token): [string, number] => [token, 2]),
+  ]),
+  prefix: new Map(["!", "~", "+", "-", "++", "--"].map((token) => [token, 1])),
+  postfix: new Map(["++", "--"].map((token) => [token, 1])),
+};
+
+// Kind of operator overloaded by a decorator, @operator is a binary operator
+const decoratorKinds = new Map<string, OperatorKind>([
+  ["operator", "binary"],
+  ["operator.binary", "binary"],
+  ["operator.prefix", "prefix"],
+  ["operator.postfix", "postfix"],
+]);
+
+function parameters(count: number): string {
+  return count === 1 ? "1 parameter" : `${count} parameters`;
+}
+
+export default createRule<[], MessageIds>({
+  name: "valid-operator-overload",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Require operator overloads to use overloadable tokens and matching method signatures",
+    },
+    messages: {
+      unknownOperator:
+        "'{{ token }}' is not an overloadable {{ kind }} operator.",
+      wrongParameterCount:
+        "The '{{ token }}' {{ kind }} operator of a {{ method }} method takes {{ expected }}, found {{ actual }}.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const parserServices = ESLintUtils.getParserServices(context, true);
+
+    return {
+      MethodDefinition(node) {
+        // An explicit this parameter is no operand
+        const params = node.value.params.filter(
+          (param) =>
+            param.type !== AST_NODE_TYPES.Identifier || param.name !== "this"
+        );
+        for (const decorator of getDecorators(parserServices, node)) {
+          const kind = decoratorKinds.get(decorator.name);
+          const token = decorator.arguments?.[0];
+          // Invalid arguments are reported by valid-decorator
+          if (!kind || decorator.arguments?.length !== 1 || !token) {
+            continue;
+          }
+          const operands = operators[kind].get(token);
+          if (operands === undefined) {
+            context.report({
+              loc: decorator.loc,
+              messageId: "unknownOperator",
+              data: { token, kind },
+            });
+            continue;
+          }
+          // Instance methods get the left operand as this
+          const expected = node.static ? operands : operands - 1;
+          if (params.length !== expected) {
+            context.report({
+              node: node.key,
+              messageId: "wrongParameterCount",
+              data: {
+                token,
+                kind,
+                method: node.static ? "static" : "instance",
+                expected: parameters(expected),
+                actual: params.length,
+              },
+            });
+          }
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,165 @@
+import { AST_NODE_TYPES, ASTUtils, TSESTree } from "@typescript-eslint/utils";
+import { SourceCode } from "@typescript-eslint/utils/ts-eslint";
+import { contains } from "./nodes.js";
+
+/**
+ * Helpers for array types and uses, e.g. to tell whether an `Array<T>` could be a
+ * `StaticArray<T>`:
+ *
+ *   const arrayType = getArrayType(typeAnnotation);
+ *   const length = getInitialLength(init);
+ *   if (arrayType?.kind === "Array" && uses.every((use) =>
+ *     isFixedLengthUse(use, length, sourceCode))) { ... }
+ */
+
+export interface ArrayType {
+  kind: "Array" | "StaticArray";
+  elementType: TSESTree.TypeNode;
+}
+
+// Array type of an annotation, e.g. i32 elements of an Array for i32[] or Array<i32>
+export function getArrayType(node: TSESTree.TypeNode): ArrayType | null {
+  if (node.type === AST_NODE_TYPES.TSArrayType) {
+    return { kind: "Array", elementType: node.elementType };
+  }
+  if (
+    node.type === AST_NODE_TYPES.TSTypeReference &&
+    node.typeName.type === AST_NODE_TYPES.Identifier &&
+    (node.typeName.name === "Array" || node.typeName.name === "StaticArray") &&
+    node.typeArguments?.params.length === 1
+  ) {
+    return {
+      kind: node.typeName.name,
+      elementType: node.typeArguments.params[0],
+    };
+  }
+  return null;
+}
+
+// Array literals without spreads and holes, or Array constructors with a length
+export function isArrayInitializer(
+  node: TSESTree.Expression | null
+): node is TSESTree.ArrayExpression | TSESTree.NewExpression {
+  if (node?.type === AST_NODE_TYPES.ArrayExpression) {
+    return node.elements.every(
+      (element) =>
+        element !== null && element.type !== AST_NODE_TYPES.SpreadElement
+    );
+  }
+  return (
+    node?.type === AST_NODE_TYPES.NewExpression &&
+    node.callee.type === AST_NODE_TYPES.Identifier &&
+    node.callee.name === "Array" &&
+    node.arguments.length <= 1
+  );
+}
+
+// Known length of a new array, e.g. 3 for [1, 2, 3] or new Array<i32>(3), null if unknown
+export function getInitialLength(
+  node: TSESTree.ArrayExpression | TSESTree.NewExpression
+): number | null {
+  if (node.type === AST_NODE_TYPES.ArrayExpression) {
+    return node.elements.length;
+  }
+  const length = node.arguments.at(0);
+  if (!length) {
+    return 0;
+  }
+  return length.type === AST_NODE_TYPES.Literal &&
+    typeof length.value === "number"
+    ? length.value
+    : null;
+}
+
+// Check if a loop condition keeps a counter below the length of an array, e.g. i < values.length
+function isBoundByLength(
+  test: TSESTree.Expression | null,
+  counter: string,
+  array: TSESTree.Node,
+  sourceCode: Readonly<SourceCode>
+): boolean {
+  return (
+    test?.type === AST_NODE_TYPES.BinaryExpression &&
+    test.operator === "<" &&
+    test.left.type === AST_NODE_TYPES.Identifier &&
+    test.left.name === counter &&
+    test.right.type === AST_NODE_TYPES.MemberExpression &&
+    !test.right.computed &&
+    test.right.property.type === AST_NODE_TYPES.Identifier &&
+    test.right.property.name === "length" &&
+    sourceCode.getText(test.right.object) === sourceCode.getText(array)
+  );
+}
+
+// Check if an element access stays below the length of the array: a constant index below
+// the initial length, or the counter of a for loop bounded by the length of the array
+// which only the loop header changes, e.g. for (let i = 0; i < values.length; i++)
+function isInRange(
+  node: TSESTree.MemberExpression,
+  length: number | null,
+  sourceCode: Readonly<SourceCode>
+): boolean {
+  const index = node.property;
+  if (index.type === AST_NODE_TYPES.Literal) {
+    return (
+      typeof index.value === "number" &&
+      Number.isInteger(index.value) &&
+      index.value >= 0 &&
+      length !== null &&
+      index.value < length
+    );
+  }
+  if (index.type !== AST_NODE_TYPES.Identifier) {
+    return false;
+  }
+  const variable = ASTUtils.findVariable(sourceCode.getScope(index), index);
+  for (
+    let current: TSESTree.Node | undefined = node.parent;
+    variable && current;
+    current = current.parent
+  ) {
+    if (
+      current.type === AST_NODE_TYPES.ForStatement &&
+      contains(current.body, node) &&
+      isBoundByLength(current.test, index.name, node.object, sourceCode)
+    ) {
+      const loop = current;
+      return variable.references.every(
+        (reference) =>
+          !reference.isWrite() || !contains(loop.body, reference.identifier)
+      );
+    }
+  }
+  return false;
+}
+
+// Check if an expression referencing an array keeps its length unchanged: reading an element
+// or the length, or writing an element in range, e.g. values[i] or values.length. Writing past
+// the end grows an Array, but traps on a StaticArray, so other writes change the length.
+export function isFixedLengthUse(
+  node: TSESTree.Node,
+  length: number | null,
+  sourceCode: Readonly<SourceCode>
+): boolean {
+  const parent = node.parent;
+  if (
+    parent?.type !== AST_NODE_TYPES.MemberExpression ||
+    parent.object !== node
+  ) {
+    return false;
+  }
+  const user = parent.parent;
+  const isWrite =
+    (user.type === AST_NODE_TYPES.AssignmentExpression &&
+      user.left === parent) ||
+    user.type === AST_NODE_TYPES.UpdateExpression;
+  if (parent.computed) {
+    return !isWrite || isInRange(parent, length, sourceCode);
+  }
+  // Assigning the length resizes the array
+  return (
+    parent.property.type === AST_NODE_TYPES.Identifier &&
+    parent.property.name === "length" &&
+    !isWrite
+  );
+}
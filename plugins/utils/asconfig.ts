@@ -0,0 +1,156 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+import {
+  AssemblyScriptSettings,
+  Feature,
+  Runtime,
+  features as knownFeatures,
+  runtimes as knownRuntimes,
+} from "./settings.js";
+
+/**
+ * Helper deriving the plugin settings and file globs from asconfig.json, so the
+ * compiler configuration stays the single source of truth:
+ *
+ *   export default [
+ *     ...assemblyscript.configs.recommended,
+ *     fromAsconfig({ target: "release" }),
+ *   ];
+ */
+
+export interface AsconfigOptions {
+  // Path to asconfig.json, searched upwards from cwd when omitted
+  path?: string;
+  // Directory the file globs are relative to, defaults to process.cwd()
+  cwd?: string;
+  // Target whose options override the base options, defaults to "release" like asc
+  target?: string;
+}
+
+export interface AsconfigConfig {
+  name: string;
+  files: string[];
+  settings: { assemblyscript: AssemblyScriptSettings };
+}
+
+type CompilerOptions = Record<string, unknown>;
+
+interface Asconfig {
+  extends?: string;
+  entries?: string[];
+  options?: CompilerOptions;
+  targets?: Record<string, CompilerOptions>;
+}
+
+// Features asc enables unless they are disabled explicitly
+const defaultFeatures: Feature[] = [
+  "sign-extension",
+  "mutable-globals",
+  "nontrapping-f2i",
+  "bulk-memory",
+];
+
+function findAsconfig(cwd: string): string {
+  let directory = resolve(cwd);
+  for (;;) {
+    const candidate = join(directory, "asconfig.json");
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(directory);
+    if (parent === directory) {
+      throw new Error(`No asconfig.json found in ${cwd} or its parents.`);
+    }
+    directory = parent;
+  }
+}
+
+// Load a config and the configs it extends, entries are resolved to absolute paths
+function loadAsconfig(path: string, seen = new Set<string>()): Asconfig {
+  if (seen.has(path)) {
+    throw new Error(`Circular extends in ${path}.`);
+  }
+  seen.add(path);
+  const config = JSON.parse(readFileSync(path, "utf8")) as Asconfig;
+  const entries = config.entries?.map((entry) => resolve(dirname(path), entry));
+  if (!config.extends) {
+    return { ...config, entries };
+  }
+  const base = loadAsconfig(resolve(dirname(path), config.extends), seen);
+  const targets = { ...base.targets };
+  for (const [name, options] of Object.entries(config.targets ?? {})) {
+    targets[name] = { ...targets[name], ...options };
+  }
+  return {
+    entries: entries ?? base.entries,
+    options: { ...base.options, ...config.options },
+    targets,
+  };
+}
+
+// Feature lists are arrays or comma separated strings, like on the command line
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : value ? [value] : [];
+  return items
+    .flatMap((item) => String(item).split(","))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function isFeature(name: string): name is Feature {
+  return (knownFeatures as readonly string[]).includes(name);
+}
+
+// asc also accepts the path of a custom runtime, which the settings can't describe
+function toRuntime(value: unknown): Runtime | undefined {
+  if (value === undefined) {
+    return "incremental";
+  }
+  return (knownRuntimes as readonly unknown[]).includes(value)
+    ? (value as Runtime)
+    : undefined;
+}
+
+// Glob matching every file next to an entry, relative to cwd
+function toGlob(entry: string, cwd: string): string {
+  const directory = relative(cwd, dirname(entry)).split("\\").join("/");
+  return directory ? `${directory}/**/*.ts` : "**/*.ts";
+}
+
+export function fromAsconfig(options: AsconfigOptions = {}): AsconfigConfig {
+  const cwd = options.cwd ?? process.cwd();
+  const path = options.path ? resolve(cwd, options.path) : findAsconfig(cwd);
+  const config = loadAsconfig(path);
+
+  const targetName = options.target ?? "release";
+  const target = config.targets?.[targetName];
+  if (options.target && !target) {
+    throw new Error(`Target '${options.target}' not found in ${path}.`);
+  }
+  const compilerOptions: CompilerOptions = { ...config.options, ...target };
+
+  const disabled = new Set(toList(compilerOptions.disable));
+  // Features unknown to the plugin are left out, the rules don't depend on them
+  const enabled = new Set([
+    ...defaultFeatures,
+    ...toList(compilerOptions.enable).filter(isFeature),
+  ]);
+  const features = [...enabled].filter((feature) => !disabled.has(feature));
+
+  const runtime = toRuntime(compilerOptions.runtime);
+
+  const files = [
+    ...new Set((config.entries ?? []).map((entry) => toGlob(entry, cwd))),
+  ];
+
+  return {
+    name: "assemblyscript/asconfig",
+    files: files.length > 0 ? files : ["**/*.ts"],
+    settings: {
+      assemblyscript: {
+        features,
+        ...(runtime && { runtime }),
+      },
+    },
+  };
+}
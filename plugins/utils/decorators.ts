@@ -0,0 +1,77 @@
+import { ParserServices, TSESTree } from "@typescript-eslint/utils";
+import ts from "typescript";
+
+/**
+ * Helper collecting the AssemblyScript decorators of a declaration, e.g. `@inline` or
+ * `@operator("+")`. TypeScript only allows decorators on classes and their members, so
+ * decorated functions and variables only parse with the parser's `allowInvalidAST` option,
+ * which drops their decorators from the ESTree. They are read from the TypeScript nodes:
+ *
+ *   for (const decorator of getDecorators(parserServices, node)) {
+ *     if (decorator.name === "inline") { ... }
+ *   }
+ */
+
+export interface Decorator {
+  // Name including the namespace, e.g. "operator.binary"
+  name: string;
+  // Values of the arguments, null for arguments which are no string literals.
+  // null when the decorator is not called, e.g. @inline
+  arguments: (string | null)[] | null;
+  loc: TSESTree.SourceLocation;
+}
+
+// Name of a decorator expression, e.g. "operator.binary", null for other expressions
+function getName(node: ts.Expression): string | null {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const object = getName(node.expression);
+    return object && `${object}.${node.name.text}`;
+  }
+  return null;
+}
+
+// Decorators of a TypeScript declaration, e.g. of a method found through the type checker
+export function getDeclarationDecorators(declaration: ts.Node): Decorator[] {
+  if (!ts.canHaveModifiers(declaration)) {
+    return [];
+  }
+  const sourceFile = declaration.getSourceFile();
+  const decorators: Decorator[] = [];
+  for (const modifier of declaration.modifiers ?? []) {
+    if (!ts.isDecorator(modifier)) {
+      continue;
+    }
+    const expression = modifier.expression;
+    const call = ts.isCallExpression(expression) ? expression : null;
+    const name = getName(call ? call.expression : expression);
+    if (!name) {
+      continue;
+    }
+    const start = sourceFile.getLineAndCharacterOfPosition(modifier.getStart());
+    const end = sourceFile.getLineAndCharacterOfPosition(modifier.getEnd());
+    decorators.push({
+      name,
+      arguments: call
+        ? call.arguments.map((argument) =>
+            ts.isStringLiteralLike(argument) ? argument.text : null
+          )
+        : null,
+      loc: {
+        start: { line: start.line + 1, column: start.character },
+        end: { line: end.line + 1, column: end.character },
+      },
+    });
+  }
+  return decorators;
+}
+
+export function getDecorators(
+  services: Partial<ParserServices>,
+  node: TSESTree.Node
+): Decorator[] {
+  const tsNode = services.esTreeNodeToTSNodeMap?.get(node);
+  return tsNode ? getDeclarationDecorators(tsNode) : [];
+}
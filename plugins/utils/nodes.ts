@@ -0,0 +1,29 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/utils";
+
+/**
+ * Helpers locating ESTree nodes relative to each other, e.g. the function a return
+ * statement belongs to:
+ *
+ *   const returnType = getEnclosingFunction(node)?.returnType;
+ */
+
+// Check if a node lies within another one, e.g. a reference within a loop body
+export function contains(outer: TSESTree.Node, inner: TSESTree.Node): boolean {
+  return outer.range[0] <= inner.range[0] && inner.range[1] <= outer.range[1];
+}
+
+// Function a node belongs to, e.g. of a return statement or an arrow function body
+export function getEnclosingFunction(
+  node: TSESTree.Node
+): TSESTree.FunctionLike | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      current.type === AST_NODE_TYPES.FunctionDeclaration ||
+      current.type === AST_NODE_TYPES.FunctionExpression ||
+      current.type === AST_NODE_TYPES.ArrowFunctionExpression
+    ) {
+      return current;
+    }
+  }
+  return null;
+}
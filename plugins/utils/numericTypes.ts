@@ -0,0 +1,314 @@
+import {
+  AST_NODE_TYPES,
+  ParserServicesWithTypeInformation,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import ts from "typescript";
+
+/**
+ * Helper resolving the AssemblyScript numeric type of an expression, e.g. "i32" for
+ * `let i: i32` or "f64" for `1.5`. AssemblyScript declares its numeric types as aliases
+ * of `number`, which the type checker doesn't keep, so the type is taken from the
+ * annotations of the declarations instead:
+ *
+ *   const type = resolveNumericType(parserServices, node);
+ *   if (type?.kind === "float") { ... }
+ */
+
+export interface NumericType {
+  name: string;
+  kind: "signed" | "unsigned" | "float";
+  // Number of value bits, isize and usize assume wasm32
+  size: number;
+}
+
+function numericType(
+  name: string,
+  kind: NumericType["kind"],
+  size: number
+): NumericType {
+  return { name, kind, size };
+}
+
+export const numericTypes: ReadonlyMap<string, NumericType> = new Map(
+  [
+    numericType("i8", "signed", 8),
+    numericType("i16", "signed", 16),
+    numericType("i32", "signed", 32),
+    numericType("i64", "signed", 64),
+    numericType("isize", "signed", 32),
+    numericType("u8", "unsigned", 8),
+    numericType("u16", "unsigned", 16),
+    numericType("u32", "unsigned", 32),
+    numericType("u64", "unsigned", 64),
+    numericType("usize", "unsigned", 32),
+    numericType("f32", "float", 32),
+    numericType("f64", "float", 64),
+  ].map((type) => [type.name, type])
+);
+
+const f32 = numericTypes.get("f32")!;
+const f64 = numericTypes.get("f64")!;
+const i32 = numericTypes.get("i32")!;
+
+// Bits of the significand, integers up to this size convert to floats without loss
+const significandBits: Record<string, number> = { f32: 23, f64: 52 };
+
+// Check if asc converts a value implicitly, which it only does without loss
+export function isAssignable(from: NumericType, to: NumericType): boolean {
+  if (from.kind === "float") {
+    return to.kind === "float" && from.size <= to.size;
+  }
+  if (to.kind === "float") {
+    return from.size <= significandBits[to.name];
+  }
+  return from.size <= to.size;
+}
+
+// Type both operands of a binary operation are converted to, null when asc rejects the mix
+export function getCommonType(
+  left: NumericType,
+  right: NumericType
+): NumericType | null {
+  if (isAssignable(right, left)) {
+    return left;
+  }
+  if (isAssignable(left, right)) {
+    return right;
+  }
+  return null;
+}
+
+const arithmeticOperators = new Set([
+  ts.SyntaxKind.PlusToken,
+  ts.SyntaxKind.MinusToken,
+  ts.SyntaxKind.AsteriskToken,
+  ts.SyntaxKind.SlashToken,
+  ts.SyntaxKind.PercentToken,
+  ts.SyntaxKind.AsteriskAsteriskToken,
+  ts.SyntaxKind.AmpersandToken,
+  ts.SyntaxKind.BarToken,
+  ts.SyntaxKind.CaretToken,
+  ts.SyntaxKind.LessThanLessThanToken,
+  ts.SyntaxKind.GreaterThanGreaterThanToken,
+  ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken,
+]);
+
+// Check if the text of a numeric literal is a float, e.g. 1.5 or 1e3 but not 0xe3
+function isFloatText(text: string): boolean {
+  return !/^0[box]/i.test(text) && /[.e]/i.test(text);
+}
+
+// Check if an expression is a float literal, e.g. 1.0, -1.5 or 1e3
+export function isFloatLiteral(
+  node: TSESTree.Node | null | undefined
+): boolean {
+  if (
+    node?.type === AST_NODE_TYPES.UnaryExpression &&
+    (node.operator === "-" || node.operator === "+")
+  ) {
+    return isFloatLiteral(node.argument);
+  }
+  return (
+    node?.type === AST_NODE_TYPES.Literal &&
+    typeof node.value === "number" &&
+    isFloatText(node.raw)
+  );
+}
+
+function fromTypeNode(node: ts.TypeNode | undefined): NumericType | null {
+  if (!node) {
+    return null;
+  }
+  if (node.kind === ts.SyntaxKind.NumberKeyword) {
+    return f64;
+  }
+  if (ts.isParenthesizedTypeNode(node)) {
+    return fromTypeNode(node.type);
+  }
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    return numericTypes.get(node.typeName.text) ?? null;
+  }
+  return null;
+}
+
+// The TypeScript lib declares as number what AssemblyScript types natively, e.g. Array#length is i32
+function isDefaultLibrary(program: ts.Program, node: ts.Node): boolean {
+  return program.isSourceFileDefaultLibrary(node.getSourceFile());
+}
+
+// Element type of an array type, e.g. f32 for f32[] or StaticArray<f32>
+function fromArrayTypeNode(node: ts.TypeNode | undefined): NumericType | null {
+  if (node && ts.isArrayTypeNode(node)) {
+    return fromTypeNode(node.elementType);
+  }
+  if (
+    node &&
+    ts.isTypeReferenceNode(node) &&
+    node.typeArguments?.length === 1
+  ) {
+    return fromTypeNode(node.typeArguments[0]);
+  }
+  return null;
+}
+
+export function resolveNumericType(
+  services: ParserServicesWithTypeInformation,
+  node: TSESTree.Node
+): NumericType | null {
+  const program = services.program;
+  const checker = program.getTypeChecker();
+  // Declarations whose initializer is being resolved, to stop on cycles
+  const visited = new Set<ts.Node>();
+
+  // Declared type of a variable, parameter or property, or the type of its initializer
+  function fromDeclaration(node: ts.Node, array: boolean): NumericType | null {
+    const declaration = checker.getSymbolAtLocation(node)?.valueDeclaration;
+    if (
+      !declaration ||
+      visited.has(declaration) ||
+      isDefaultLibrary(program, declaration) ||
+      !(
+        ts.isVariableDeclaration(declaration) ||
+        ts.isParameter(declaration) ||
+        ts.isPropertyDeclaration(declaration) ||
+        ts.isPropertySignature(declaration)
+      )
+    ) {
+      return null;
+    }
+    if (declaration.type) {
+      return array
+        ? fromArrayTypeNode(declaration.type)
+        : fromTypeNode(declaration.type);
+    }
+    if (
+      array ||
+      ts.isPropertySignature(declaration) ||
+      !declaration.initializer
+    ) {
+      return null;
+    }
+    // Integer literals without a type are inferred as i32
+    visited.add(declaration);
+    const initializer = declaration.initializer;
+    return ts.isNumericLiteral(initializer) &&
+      !isFloatText(initializer.getText())
+      ? i32
+      : resolve(initializer);
+  }
+
+  function resolveBinary(node: ts.BinaryExpression): NumericType | null {
+    const operator = node.operatorToken.kind;
+    if (
+      operator >= ts.SyntaxKind.FirstAssignment &&
+      operator <= ts.SyntaxKind.LastAssignment
+    ) {
+      return resolve(node.left);
+    }
+    if (!arithmeticOperators.has(operator)) {
+      return null;
+    }
+    const left = resolve(node.left);
+    const right = resolve(node.right);
+    if (!left || !right) {
+      return left ?? right;
+    }
+    // Float literals next to f32 values are f32
+    if (
+      (left === f32 && ts.isNumericLiteral(node.right)) ||
+      (right === f32 && ts.isNumericLiteral(node.left))
+    ) {
+      return f32;
+    }
+    return getCommonType(left, right);
+  }
+
+  function resolve(node: ts.Node): NumericType | null {
+    if (ts.isNumericLiteral(node)) {
+      // Integer literals take the type of their context
+      return isFloatText(node.getText()) ? f64 : null;
+    }
+    if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node)) {
+      return resolve(node.expression);
+    }
+    if (ts.isPrefixUnaryExpression(node)) {
+      return node.operator === ts.SyntaxKind.ExclamationToken
+        ? null
+        : resolve(node.operand);
+    }
+    if (ts.isPostfixUnaryExpression(node)) {
+      return resolve(node.operand);
+    }
+    if (ts.isAsExpression(node) || ts.isTypeAssertionExpression(node)) {
+      return fromTypeNode(node.type);
+    }
+    if (ts.isBinaryExpression(node)) {
+      return resolveBinary(node);
+    }
+    if (ts.isCallExpression(node)) {
+      // Conversions like i32(x)
+      const conversion = ts.isIdentifier(node.expression)
+        ? numericTypes.get(node.expression.text)
+        : undefined;
+      if (conversion) {
+        return conversion;
+      }
+      const declaration = checker.getResolvedSignature(node)?.declaration;
+      return declaration &&
+        !ts.isJSDocSignature(declaration) &&
+        !isDefaultLibrary(program, declaration)
+        ? fromTypeNode(declaration.type)
+        : null;
+    }
+    if (ts.isIdentifier(node)) {
+      return fromDeclaration(node, false);
+    }
+    if (ts.isPropertyAccessExpression(node)) {
+      return fromDeclaration(node.name, false);
+    }
+    if (ts.isElementAccessExpression(node)) {
+      const object = ts.isPropertyAccessExpression(node.expression)
+        ? node.expression.name
+        : node.expression;
+      return fromDeclaration(object, true);
+    }
+    return null;
+  }
+
+  return resolve(services.esTreeNodeToTSNodeMap.get(node));
+}
+
+// Numeric type of an annotation, e.g. i32 for the annotation of `let count: i32`
+export function resolveTypeAnnotation(
+  services: ParserServicesWithTypeInformation,
+  node: TSESTree.TypeNode
+): NumericType | null {
+  return fromTypeNode(services.esTreeNodeToTSNodeMap.get(node) as ts.TypeNode);
+}
+
+// Declared numeric types of the parameters of the called function, null when unknown
+export function resolveParameterTypes(
+  services: ParserServicesWithTypeInformation,
+  node: TSESTree.CallExpression | TSESTree.NewExpression
+): (NumericType | null)[] {
+  const program = services.program;
+  const declaration = program
+    .getTypeChecker()
+    .getResolvedSignature(
+      services.esTreeNodeToTSNodeMap.get(node)
+    )?.declaration;
+  if (
+    !declaration ||
+    ts.isJSDocSignature(declaration) ||
+    isDefaultLibrary(program, declaration)
+  ) {
+    return [];
+  }
+  // Rest parameters take any number of arguments, stop before them
+  const parameters = declaration.parameters;
+  const rest = parameters.findIndex((parameter) => parameter.dotDotDotToken);
+  return parameters
+    .slice(0, rest === -1 ? undefined : rest)
+    .map((parameter) => fromTypeNode(parameter.type));
+}
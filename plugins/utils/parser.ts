@@ -0,0 +1,86 @@
+import { TSESLint } from "@typescript-eslint/utils";
+import { Parser, ParserOptions } from "@typescript-eslint/utils/ts-eslint";
+import { dirname, resolve } from "node:path";
+import ts from "typescript";
+import tseslint from "typescript-eslint";
+import { assemblyscriptTsconfig } from "./types.js";
+
+/**
+ * Parser of the presets, the typescript-eslint parser with a fallback for files which are
+ * not part of a tsconfig.json. The project service only gives such files a default project
+ * if they match `allowDefaultProject`, which rejects wide globs and files found in a
+ * tsconfig.json. Instead, these files are parsed with a program of their own containing
+ * the AssemblyScript standard library declarations.
+ */
+
+// typescript-eslint only exports the parser with a loose type
+const typescriptParser = tseslint.parser as {
+  parseForESLint(code: string, options?: ParserOptions): Parser.ParseResult;
+};
+
+let defaultConfig: ts.ParsedCommandLine | null = null;
+// Programs reuse the declarations parsed by the previous one
+let previousProgram: ts.Program | undefined;
+
+function getDefaultConfig(): ts.ParsedCommandLine {
+  if (!defaultConfig) {
+    const { config } = ts.readConfigFile(
+      assemblyscriptTsconfig,
+      ts.sys.readFile
+    );
+    defaultConfig = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      dirname(assemblyscriptTsconfig)
+    );
+  }
+  return defaultConfig;
+}
+
+// Program for a file without a tsconfig, with the linted code instead of the file on disk
+function createDefaultProgram(filePath: string, code: string): ts.Program {
+  const { options, fileNames } = getDefaultConfig();
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, languageVersion, ...rest) =>
+    resolve(fileName) === filePath
+      ? ts.createSourceFile(fileName, code, languageVersion, true)
+      : getSourceFile(fileName, languageVersion, ...rest);
+  previousProgram = ts.createProgram({
+    rootNames: [...fileNames, filePath],
+    options,
+    host,
+    oldProgram: previousProgram,
+  });
+  return previousProgram;
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.message.includes("was not found by the project service")
+  );
+}
+
+const parser: TSESLint.FlatConfig.Parser = {
+  meta: {
+    name: "@schleifner/assemblyscript-eslint-plugin/parser",
+  },
+  parseForESLint(code: string, options?: ParserOptions) {
+    try {
+      return typescriptParser.parseForESLint(code, options);
+    } catch (error) {
+      if (!isNotFoundError(error) || !options?.filePath) {
+        throw error;
+      }
+      const filePath = resolve(options.filePath);
+      return typescriptParser.parseForESLint(code, {
+        ...options,
+        projectService: false,
+        programs: [createDefaultProgram(filePath, code)],
+      });
+    }
+  },
+};
+
+export default parser;
@@ -0,0 +1,136 @@
+import { TSESLint } from "@typescript-eslint/utils";
+
+/**
+ * Helper to read the shared plugin settings describing the targeted compiler:
+ *
+ *   settings: {
+ *     assemblyscript: {
+ *       version: "0.27.0",
+ *       features: ["simd", "threads"],
+ *       runtime: "incremental",
+ *     },
+ *   }
+ *
+ * Rules use it to turn checks on or off consistently, e.g. try/catch is
+ * accepted once "exception-handling" is enabled.
+ */
+
+// WebAssembly features accepted by asc --enable and --disable
+export const features = [
+  "sign-extension",
+  "mutable-globals",
+  "nontrapping-f2i",
+  "bulk-memory",
+  "simd",
+  "threads",
+  "exception-handling",
+  "tail-calls",
+  "reference-types",
+  "multi-value",
+  "gc",
+  "memory64",
+  "relaxed-simd",
+  "extended-const",
+  "stringref",
+] as const;
+
+export type Feature = (typeof features)[number];
+
+// Runtime variants accepted by asc --runtime, stub never frees memory
+export const runtimes = ["incremental", "minimal", "stub"] as const;
+
+export type Runtime = (typeof runtimes)[number];
+
+// Names of the runtime variants before asc 0.18, which replaced them with the new garbage collector
+const legacyRuntimes = new Map<string, Runtime>([
+  ["full", "incremental"],
+  ["half", "minimal"],
+  ["none", "stub"],
+]);
+
+// Shape of settings.assemblyscript as written in the ESLint config
+export interface AssemblyScriptSettings {
+  version?: string;
+  features?: Feature[];
+  runtime?: string;
+}
+
+export interface ResolvedSettings {
+  // [major, minor, patch], null when no version is configured
+  version: [number, number, number] | null;
+  // Enabled features, null when unknown so rules keep their default behavior
+  features: ReadonlySet<Feature> | null;
+  // Runtime variant, null when unknown
+  runtime: Runtime | null;
+}
+
+type AnyRuleContext = Readonly<
+  TSESLint.RuleContext<string, readonly unknown[]>
+>;
+
+const settingsCache = new WeakMap<object, ResolvedSettings>();
+
+function parseVersion(version: string): [number, number, number] {
+  const match = /^v?(\d+)\.(\d+)(?:\.(\d+))?/.exec(version);
+  if (!match) {
+    throw new Error(
+      `Invalid settings.assemblyscript.version '${version}', expected e.g. '0.27.0'.`
+    );
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+}
+
+// Check if a version is older than another one, e.g. 0.17.14 before 0.18.0
+function isBefore(
+  version: readonly number[],
+  other: readonly number[]
+): boolean {
+  const index = version.findIndex((part, i) => part !== other[i]);
+  return index !== -1 && version[index] < other[index];
+}
+
+function parseFeatures(names: string[]): Set<Feature> {
+  const result = new Set<Feature>();
+  for (const name of names) {
+    if (!(features as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown feature '${name}' in settings.assemblyscript.features.`
+      );
+    }
+    result.add(name as Feature);
+  }
+  return result;
+}
+
+function parseRuntime(
+  name: string,
+  version: [number, number, number] | null
+): Runtime {
+  const legacyRuntime = legacyRuntimes.get(name);
+  if (legacyRuntime && version && isBefore(version, [0, 18, 0])) {
+    return legacyRuntime;
+  }
+  if (!(runtimes as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown runtime '${name}' in settings.assemblyscript.runtime.`
+    );
+  }
+  return name as Runtime;
+}
+
+export function getSettings(context: AnyRuleContext): ResolvedSettings {
+  const raw = (context.settings.assemblyscript ?? {}) as AssemblyScriptSettings;
+  const cached = settingsCache.get(raw);
+  if (cached) {
+    return cached;
+  }
+  const version = raw.version === undefined ? null : parseVersion(raw.version);
+  const resolved: ResolvedSettings = {
+    version,
+    features: raw.features === undefined ? null : parseFeatures(raw.features),
+    runtime:
+      raw.runtime === undefined ? null : parseRuntime(raw.runtime, version),
+  };
+  settingsCache.set(raw, resolved);
+  return resolved;
+}
@@ -0,0 +1,20 @@
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Location of the AssemblyScript standard library declarations shipped with the plugin.
+ * The tsconfig configures the programs of files linted without a tsconfig of their own,
+ * its options add the declarations to them.
+ */
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Relative to dist/plugins/utils
+const typesDirectory = resolve(__dirname, "../../../types");
+
+export const assemblyscriptTypes = resolve(
+  typesDirectory,
+  "assemblyscript/index.d.ts"
+);
+
+export const assemblyscriptTsconfig = resolve(typesDirectory, "tsconfig.json");
@@ -12,6 +12,15 @@ import "./rules/noUnsupportedKeyword.test.js";
 import "./rules/arrayInitStyle.test.js";
 import "./rules/noConcatString.test.js";
 import "./rules/specifyType.test.js";
+import "./rules/noClosureCapture.test.js";
+import "./rules/noUnsupportedSyntax.test.js";
+import "./rules/preferNativeNumericTypes.test.js";
+import "./rules/noImplicitNumericConversion.test.js";
+import "./rules/noUnionTypes.test.js";
+import "./rules/validDecorator.test.js";
+import "./rules/validOperatorOverload.test.js";
+import "./rules/noObjectLiteralWithoutClass.test.js";
+import "./rules/noDynamicPropertyAccess.test.js";
 
 describe("AssemblyScript ESLint Plugin", () => {
   // Test suite is composed of individual rule tests imported above
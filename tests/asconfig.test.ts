@@ -0,0 +1,128 @@
+/**
+ * Test file for the asconfig.json helper exported by the plugin entry point
+ *
+ * Each test writes its asconfig files to a temporary directory.
+ */
+import { afterEach, beforeEach, describe, it } from "mocha";
+import assert from "node:assert";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fromAsconfig } from "../plugins/index.js";
+
+describe("fromAsconfig", () => {
+  let root: string;
+
+  function write(path: string, content: object) {
+    mkdirSync(join(root, path, ".."), { recursive: true });
+    writeFileSync(join(root, path), JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "asconfig-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("derives features, runtime and files from the release target", () => {
+    write("asconfig.json", {
+      entries: ["assembly/index.ts"],
+      options: { enable: ["simd"], runtime: "minimal" },
+      targets: {
+        debug: { debug: true },
+        release: { runtime: "stub", disable: "bulk-memory" },
+      },
+    });
+    const config = fromAsconfig({ cwd: root });
+    assert.deepStrictEqual(config.files, ["assembly/**/*.ts"]);
+    assert.deepStrictEqual(config.settings.assemblyscript, {
+      features: [
+        "sign-extension",
+        "mutable-globals",
+        "nontrapping-f2i",
+        "simd",
+      ],
+      runtime: "stub",
+    });
+  });
+
+  it("applies the selected target and searches parent directories", () => {
+    write("asconfig.json", {
+      options: { enable: "threads, exception-handling" },
+      targets: { debug: { runtime: "minimal" } },
+    });
+    mkdirSync(join(root, "assembly"));
+    const config = fromAsconfig({
+      cwd: join(root, "assembly"),
+      target: "debug",
+    });
+    assert.deepStrictEqual(config.files, ["**/*.ts"]);
+    assert.deepStrictEqual(config.settings.assemblyscript, {
+      features: [
+        "sign-extension",
+        "mutable-globals",
+        "nontrapping-f2i",
+        "bulk-memory",
+        "threads",
+        "exception-handling",
+      ],
+      runtime: "minimal",
+    });
+  });
+
+  it("merges the extended config", () => {
+    write("configs/base.json", {
+      entries: ["../src/index.ts", "../src/other.ts"],
+      options: { enable: ["simd"], runtime: "stub" },
+      targets: { release: { disable: ["sign-extension"] } },
+    });
+    write("project/asconfig.json", {
+      extends: "../configs/base.json",
+      options: { runtime: "minimal" },
+      targets: { release: { enable: ["reference-types"] } },
+    });
+    const config = fromAsconfig({ cwd: root, path: "project/asconfig.json" });
+    assert.deepStrictEqual(config.files, ["src/**/*.ts"]);
+    assert.deepStrictEqual(config.settings.assemblyscript, {
+      features: [
+        "mutable-globals",
+        "nontrapping-f2i",
+        "bulk-memory",
+        "reference-types",
+      ],
+      runtime: "minimal",
+    });
+  });
+
+  it("leaves out custom runtimes and unknown features", () => {
+    write("asconfig.json", {
+      options: {
+        enable: ["simd", "future-feature"],
+        runtime: "./my-runtime.ts",
+      },
+    });
+    const config = fromAsconfig({ cwd: root });
+    assert.deepStrictEqual(config.settings.assemblyscript, {
+      features: [
+        "sign-extension",
+        "mutable-globals",
+        "nontrapping-f2i",
+        "bulk-memory",
+        "simd",
+      ],
+    });
+  });
+
+  it("reports missing files, targets and circular extends", () => {
+    assert.throws(() => fromAsconfig({ cwd: root }), /No asconfig.json found/);
+    write("asconfig.json", { extends: "./asconfig.json" });
+    assert.throws(() => fromAsconfig({ cwd: root }), /Circular extends/);
+    write("asconfig.json", { targets: {} });
+    assert.throws(
+      () => fromAsconfig({ cwd: root, target: "debug" }),
+      /Target 'debug' not found/
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test file for the flat-config presets exported by the plugin entry point
+ *
+ * Each preset is loaded through ESLint's Linter to make sure the parser setup
+ * works and the expected rules are enabled.
+ */
+import { clearCaches } from "@typescript-eslint/parser";
+import { describe, it } from "mocha";
+import assert from "node:assert";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { Linter } from "eslint";
+import plugin from "../plugins/index.js";
+
+// Code triggering one rule of each plugin, the decorated function has to parse
+const code = `
+let foo: any = 1;
+let bar: i32[] = [];
+if (foo) bar = new Array<i32>();
+@inline
+function twice(x: i32): i32 {
+  return x * 2;
+}
+`;
+
+// The preset alone has to lint files which are not part of a tsconfig.json
+function lint(preset: keyof typeof plugin.configs) {
+  clearCaches();
+  const linter = new Linter({ configType: "flat", cwd: tmpdir() });
+  const messages = linter.verify(
+    code,
+    plugin.configs[preset] as Linter.Config[],
+    resolve(tmpdir(), "preset.ts")
+  );
+  clearCaches();
+  for (const message of messages) {
+    assert.ok(message.ruleId, `Unexpected error: ${message.message}`);
+  }
+  return new Set(messages.map((message) => message.ruleId));
+}
+
+// Collect the rules enabled by the preset together with their severity
+function enabledRules(preset: keyof typeof plugin.configs) {
+  const rules: Record<string, unknown> = {};
+  for (const config of plugin.configs[preset]) {
+    Object.assign(rules, config.rules);
+  }
+  return rules;
+}
+
+describe("Plugin configs", () => {
+  it("recommended enables the language rules", () => {
+    const rules = enabledRules("recommended");
+    assert.strictEqual(rules["assemblyscript/no-spread"], "error");
+    assert.strictEqual(rules["assemblyscript/no-unsupported-keyword"], "error");
+    assert.strictEqual(rules["assemblyscript/dont-omit-else"], "warn");
+    assert.strictEqual(
+      rules["assemblyscript/prefer-native-numeric-types"],
+      "warn"
+    );
+    assert.deepStrictEqual(rules["curly"], ["error", "all"]);
+    assert.ok(rules["@typescript-eslint/no-restricted-types"]);
+    assert.strictEqual(rules["assemblyscript/array-init-style"], undefined);
+
+    const ruleIds = lint("recommended");
+    assert.ok(ruleIds.has("assemblyscript/no-unsupported-keyword"));
+    assert.ok(ruleIds.has("assemblyscript/dont-omit-else"));
+    assert.ok(ruleIds.has("curly"));
+    assert.ok(!ruleIds.has("assemblyscript/array-init-style"));
+  });
+
+  it("performance enables only the performance rules", () => {
+    const rules = enabledRules("performance");
+    assert.deepStrictEqual(Object.keys(rules).sort(), [
+      "assemblyscript/array-init-style",
+      "assemblyscript/no-allocation-in-loop",
+      "assemblyscript/no-repeated-member-access",
+      "assemblyscript/prefer-static-array",
+    ]);
+
+    const ruleIds = lint("performance");
+    assert.deepStrictEqual([...ruleIds].sort(), [
+      "assemblyscript/array-init-style",
+      "assemblyscript/prefer-static-array",
+    ]);
+  });
+
+  it("strict enables every plugin rule as error", () => {
+    const rules = enabledRules("strict");
+    for (const ruleName of Object.keys(plugin.rules)) {
+      assert.strictEqual(rules[`assemblyscript/${ruleName}`], "error");
+    }
+    assert.strictEqual(rules["no-implicit-globals"], "error");
+
+    const ruleIds = lint("strict");
+    assert.ok(ruleIds.has("assemblyscript/no-unsupported-keyword"));
+    assert.ok(ruleIds.has("assemblyscript/array-init-style"));
+    assert.ok(ruleIds.has("curly"));
+  });
+});
@@ -7,7 +7,9 @@ import { describe } from "mocha";
 
 // Import individual rule tests to run them as part of the test suite
 import "./rules/arrayInitStyle.test.js";
+import "./rules/noAllocationInLoop.test.js";
 import "./rules/noRepeatedMemberAccess.test.js";
+import "./rules/preferStaticArray.test.js";
 
 describe("AssemblyScript Performance ESLint Plugin", () => {
   // Test suite is composed of individual rule tests imported above
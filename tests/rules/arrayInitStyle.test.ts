@@ -37,4 +37,214 @@ describe("Rule: array-init-style", () => {
       ],
     });
   });
+
+  it("covers class fields, parameters, return values and StaticArray", () => {
+    ruleTester.run("array-init-style", arrayInitStyle, {
+      valid: [
+        {
+          code: `class Buffer { data: u8[] = new Array<u8>(); }`,
+        },
+        {
+          code: `function make(): i32[] { return [1]; }`,
+        },
+        // Return values without an annotated return type are unknown
+        {
+          code: `function make() { return []; }`,
+        },
+        {
+          code: `const x: StaticArray<i32> = new StaticArray<i32>(0);`,
+        },
+        // Not an array type
+        {
+          code: `const x: Set<i32> = [];`,
+        },
+      ],
+      invalid: [
+        {
+          code: "const names: string[] = [];",
+          output: "const names: string[] = new Array<string>();",
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+        {
+          code: "let items: Array<Foo> = [];",
+          output: "let items: Array<Foo> = new Array<Foo>();",
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+        {
+          code: "const table: StaticArray<i32> = [];",
+          output: "const table: StaticArray<i32> = new StaticArray<i32>(0);",
+          errors: [{ messageId: "preferStaticArrayConstructor" }],
+        },
+        {
+          code: "class Buffer { data: u8[] = []; }",
+          output: "class Buffer { data: u8[] = new Array<u8>(); }",
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+        {
+          code: "function fill(values: f64[] = []): void {}",
+          output: "function fill(values: f64[] = new Array<f64>()): void {}",
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+        {
+          code: "function make(): i32[] { return []; }",
+          output: "function make(): i32[] { return new Array<i32>(); }",
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+        {
+          code: "const make = (): Array<i64> => [];",
+          output: "const make = (): Array<i64> => new Array<i64>();",
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+      ],
+    });
+  });
+
+  it("suggests StaticArray for constant arrays in static-array mode", () => {
+    ruleTester.run("array-init-style", arrayInitStyle, {
+      valid: [
+        // The length changes
+        {
+          code: `
+            const values: i32[] = [1, 2];
+            values.push(3);
+          `,
+          options: [{ mode: "static-array" }],
+        },
+        {
+          code: `
+            const values: i32[] = new Array<i32>(4);
+            values.length = 0;
+          `,
+          options: [{ mode: "static-array" }],
+        },
+        // Writing past the end grows an Array, but traps on a StaticArray
+        {
+          code: `
+            const values: i32[] = [1, 2];
+            values[2] = 3;
+          `,
+          options: [{ mode: "static-array" }],
+        },
+        {
+          code: `
+            const values: i32[] = new Array<i32>(size);
+            values[size - 1] = 1;
+          `,
+          options: [{ mode: "static-array" }],
+        },
+        {
+          code: `
+            const values: i32[] = new Array<i32>(size);
+            for (let i = 0; i < values.length; i++) {
+              values[i] = 1;
+              i++;
+            }
+          `,
+          options: [{ mode: "static-array" }],
+        },
+        // Passed on, the callee may resize it
+        {
+          code: `
+            const values: i32[] = [1, 2];
+            consume(values);
+          `,
+          options: [{ mode: "static-array" }],
+        },
+        // Mutable variables may be reassigned
+        {
+          code: `let values: i32[] = [1, 2];`,
+          options: [{ mode: "static-array" }],
+        },
+        // Spreads have no known length
+        {
+          code: `const values: i32[] = [...other];`,
+          options: [{ mode: "static-array" }],
+        },
+        {
+          code: `const values: StaticArray<i32> = [1, 2];`,
+          options: [{ mode: "static-array" }],
+        },
+      ],
+      invalid: [
+        {
+          code: `
+            const table: i32[] = [1, 2, 3];
+            const first = table[0] + table.length;
+          `,
+          output: `
+            const table: StaticArray<i32> = [1, 2, 3];
+            const first = table[0] + table.length;
+          `,
+          options: [{ mode: "static-array" }],
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              data: { name: "table", type: "i32" },
+            },
+          ],
+        },
+        {
+          code: `
+            const buffer: Array<u8> = new Array<u8>(size);
+            for (let i = 0; i < buffer.length; i++) {
+              buffer[i] = 1;
+            }
+          `,
+          output: `
+            const buffer: StaticArray<u8> = new StaticArray<u8>(size);
+            for (let i = 0; i < buffer.length; i++) {
+              buffer[i] = 1;
+            }
+          `,
+          options: [{ mode: "static-array" }],
+          errors: [{ messageId: "preferStaticArray" }],
+        },
+        {
+          code: "const empty: f32[] = [];",
+          output: "const empty: StaticArray<f32> = new StaticArray<f32>(0);",
+          options: [{ mode: "static-array" }],
+          errors: [{ messageId: "preferStaticArray" }],
+        },
+        {
+          code: "const empty: f32[] = new Array<f32>();",
+          output: "const empty: StaticArray<f32> = new StaticArray<f32>(0);",
+          options: [{ mode: "static-array" }],
+          errors: [{ messageId: "preferStaticArray" }],
+        },
+        // Arrays which can't be static are still checked for empty literals
+        {
+          code: `
+            function load(): i32 {
+              const values: i32[] = [];
+              values[0] = 1;
+              values[1] = 2;
+              return values.length;
+            }
+          `,
+          output: `
+            function load(): i32 {
+              const values: i32[] = new Array<i32>();
+              values[0] = 1;
+              values[1] = 2;
+              return values.length;
+            }
+          `,
+          options: [{ mode: "static-array" }],
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+        {
+          code: `
+            const values: i32[] = [];
+            values.push(1);
+          `,
+          output: `
+            const values: i32[] = new Array<i32>();
+            values.push(1);
+          `,
+          options: [{ mode: "static-array" }],
+          errors: [{ messageId: "preferArrayConstructor" }],
+        },
+      ],
+    });
+  });
 });
@@ -88,21 +88,58 @@ describe("Rule: dont-omit-else", () => {
             doSomething();
           }
           `,
-          errors: [{ messageId: "omittedElse" }],
+          output: `
+          if (b) {
+            doSomething();
+          } else {}
+          `,
+          errors: [{ messageId: "omittedElse", suggestions: [] }],
         },
         // Invalid case: empty if without else
         {
           code: `
           if (b) {}
           `,
-          errors: [{ messageId: "omittedElse" }],
+          output: `
+          if (b) {} else {}
+          `,
+          errors: [{ messageId: "omittedElse", suggestions: [] }],
         },
         // Invalid case: single line if without else
         {
           code: `
           if (b) doSomething();
           `,
-          errors: [{ messageId: "omittedElse" }],
+          output: `
+          if (b) doSomething(); else {}
+          `,
+          errors: [{ messageId: "omittedElse", suggestions: [] }],
+        },
+        // Invalid case: single line if without semicolons
+        {
+          code: `
+          if (b) doSomething()
+          doMore()
+          `,
+          output: `
+          if (b) doSomething(); else {}
+          doMore()
+          `,
+          errors: [
+            {
+              messageId: "omittedElse",
+              suggestions: [
+                {
+                  messageId: "moveIntoElse",
+                  output: `
+          if (b) doSomething(); else {
+            doMore()
+          }
+          `,
+                },
+              ],
+            },
+          ],
         },
         // Invalid case: nested if statements without else
         {
@@ -113,9 +150,371 @@ describe("Rule: dont-omit-else", () => {
             } // Inner if missing else
           } // Outer if missing else
           `,
+          output: `
+          if (a) {
+            if (b) {
+              doSomething();
+            } else {} // Inner if missing else
+          } else {} // Outer if missing else
+          `,
+          errors: [
+            { messageId: "omittedElse", suggestions: [] }, // Error for inner if
+            { messageId: "omittedElse", suggestions: [] }, // Error for outer if
+          ],
+        },
+      ],
+    });
+  });
+
+  it("follows nested terminators and abort builtins", () => {
+    ruleTester.run("dont-omit-else", dontOmitElse, {
+      valid: [
+        // Valid case: nested if/else where both branches return
+        `
+        function sign(x: i32): i32 {
+          if (x != 0) {
+            if (x > 0) {
+              return 1;
+            } else {
+              return -1;
+            }
+          }
+          return 0;
+        }
+        `,
+        // Valid case: switch returning from every case
+        `
+        function name(kind: i32): string {
+          if (kind > 0) {
+            switch (kind) {
+              case 1:
+              case 2:
+                return "small";
+              default:
+                throw new Error("unknown");
+            }
+          }
+          return "none";
+        }
+        `,
+        // Valid case: abort builtins and functions returning never
+        `
+        function fail(message: string): never {
+          throw new Error(message);
+        }
+        function check(x: i32): void {
+          if (x < 0) {
+            unreachable();
+          }
+          if (x > 100) {
+            abort("too large");
+          }
+          if (x == 50) {
+            fail("fifty");
+          }
+        }
+        `,
+        // Valid case: configured abort functions
+        {
+          code: `
+          if (b) {
+            panic();
+          }
+          `,
+          options: [{ abortFunctions: ["panic"] }],
+        },
+        // Valid case: labeled break leaving the branch from a switch
+        `
+        outer: for (let i = 0; i < 10; i++) {
+          if (i > 5) {
+            switch (i) {
+              default:
+                break outer;
+            }
+          }
+        }
+        `,
+      ],
+      invalid: [
+        // Invalid case: only one branch of the nested if returns
+        {
+          code: `
+          function sign(x: i32): i32 {
+            if (x != 0) {
+              if (x > 0) {
+                return 1;
+              } else {
+                log(x);
+              }
+            }
+            return 0;
+          }
+          `,
+          output: `
+          function sign(x: i32): i32 {
+            if (x != 0) {
+              if (x > 0) {
+                return 1;
+              } else {
+                log(x);
+              }
+            } else {}
+            return 0;
+          }
+          `,
           errors: [
-            { messageId: "omittedElse" }, // Error for inner if
-            { messageId: "omittedElse" }, // Error for outer if
+            {
+              messageId: "omittedElse",
+              line: 3,
+              suggestions: [
+                {
+                  messageId: "moveIntoElse",
+                  output: `
+          function sign(x: i32): i32 {
+            if (x != 0) {
+              if (x > 0) {
+                return 1;
+              } else {
+                log(x);
+              }
+            } else {
+              return 0;
+            }
+          }
+          `,
+                },
+              ],
+            },
+          ],
+        },
+        // Invalid case: switch without default or breaking out of the switch
+        {
+          code: `
+          while (running) {
+            if (a) {
+              switch (kind) {
+                case 1:
+                  return;
+              }
+            }
+            if (b) {
+              switch (kind) {
+                default:
+                  break;
+              }
+            }
+          }
+          `,
+          output: `
+          while (running) {
+            if (a) {
+              switch (kind) {
+                case 1:
+                  return;
+              }
+            } else {}
+            if (b) {
+              switch (kind) {
+                default:
+                  break;
+              }
+            } else {}
+          }
+          `,
+          errors: [
+            {
+              messageId: "omittedElse",
+              line: 3,
+              suggestions: [
+                {
+                  messageId: "moveIntoElse",
+                  output: `
+          while (running) {
+            if (a) {
+              switch (kind) {
+                case 1:
+                  return;
+              }
+            } else {
+              if (b) {
+                switch (kind) {
+                  default:
+                    break;
+                }
+              }
+            }
+          }
+          `,
+                },
+              ],
+            },
+            { messageId: "omittedElse", line: 9, suggestions: [] },
+          ],
+        },
+        // Invalid case: functions returning normally, unless configured as abort functions
+        {
+          code: `
+          declare function exit(code: i32): void;
+          if (b) {
+            exit(1);
+          }
+          `,
+          output: `
+          declare function exit(code: i32): void;
+          if (b) {
+            exit(1);
+          } else {}
+          `,
+          errors: [{ messageId: "omittedElse", suggestions: [] }],
+        },
+      ],
+    });
+  });
+
+  it("validates the exemption options", () => {
+    ruleTester.run("dont-omit-else", dontOmitElse, {
+      valid: [
+        // Valid case: single assignments, updates and calls
+        {
+          code: `
+          if (a) count = 0;
+          if (b) {
+            count++;
+          }
+          if (c) log(count);
+          `,
+          options: [{ ignoreSideEffectOnly: true }],
+        },
+        // Valid case: guards at the top of loops
+        {
+          code: `
+          for (let i = 0; i < 10; i++) {
+            if (i % 2 == 0) {
+              log(i);
+            }
+            total += i;
+          }
+          while (running) if (idle) sleep();
+          `,
+          options: [{ ignoreLoopGuards: true }],
+        },
+        // Valid case: no code follows the if-statement
+        {
+          code: `
+          function update(value: i32): void {
+            total += value;
+            if (value > max) {
+              max = value;
+            }
+          }
+          `,
+          options: [{ onlyIfFollowed: true }],
+        },
+      ],
+      invalid: [
+        // Invalid case: branches with several statements or other expressions
+        {
+          code: `
+          if (a) {
+            count = 0;
+            log(count);
+          }
+          if (b) {
+            count > 0 ? log(count) : reset();
+          }
+          `,
+          options: [{ ignoreSideEffectOnly: true }],
+          output: `
+          if (a) {
+            count = 0;
+            log(count);
+          } else {}
+          if (b) {
+            count > 0 ? log(count) : reset();
+          } else {}
+          `,
+          errors: [
+            {
+              messageId: "omittedElse",
+              line: 2,
+              suggestions: [
+                {
+                  messageId: "moveIntoElse",
+                  output: `
+          if (a) {
+            count = 0;
+            log(count);
+          } else {
+            if (b) {
+              count > 0 ? log(count) : reset();
+            }
+          }
+          `,
+                },
+              ],
+            },
+            { messageId: "omittedElse", line: 6, suggestions: [] },
+          ],
+        },
+        // Invalid case: if-statements after the first statement of a loop
+        {
+          code: `
+          for (let i = 0; i < 10; i++) {
+            total += i;
+            if (i % 2 == 0) {
+              log(i);
+            }
+          }
+          `,
+          options: [{ ignoreLoopGuards: true }],
+          output: `
+          for (let i = 0; i < 10; i++) {
+            total += i;
+            if (i % 2 == 0) {
+              log(i);
+            } else {}
+          }
+          `,
+          errors: [{ messageId: "omittedElse", line: 4, suggestions: [] }],
+        },
+        // Invalid case: code follows the if-statement
+        {
+          code: `
+          function update(value: i32): void {
+            if (value > max) {
+              max = value;
+            }
+            total += value;
+          }
+          `,
+          options: [{ onlyIfFollowed: true }],
+          output: `
+          function update(value: i32): void {
+            if (value > max) {
+              max = value;
+            } else {}
+            total += value;
+          }
+          `,
+          errors: [
+            {
+              messageId: "omittedElse",
+              line: 3,
+              suggestions: [
+                {
+                  messageId: "moveIntoElse",
+                  output: `
+          function update(value: i32): void {
+            if (value > max) {
+              max = value;
+            } else {
+              total += value;
+            }
+          }
+          `,
+                },
+              ],
+            },
           ],
         },
       ],
@@ -0,0 +1,212 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noAllocationInLoop from "../../plugins/rules/noAllocationInLoop.js";
+
+describe("Rule: no-allocation-in-loop", () => {
+  const ruleTester = createRuleTester();
+
+  it("reports allocations in loop bodies", () => {
+    ruleTester.run("no-allocation-in-loop", noAllocationInLoop, {
+      valid: [
+        // Allocations outside loops
+        `
+          const buffer = new Array<i32>(16);
+          const point = { x: 1, y: 2 };
+          const label = "count: " + count.toString();
+        `,
+        // Reusing values allocated before the loop
+        `
+          const buffer = new Array<i32>(16);
+          for (let i = 0; i < buffer.length; i++) {
+            buffer[i] = i * 2;
+          }
+        `,
+        // Headers of a loop are evaluated once
+        `
+          for (const value of [1, 2, 3]) {
+            total += value;
+          }
+        `,
+        `
+          for (let i = 0, parts = new Array<string>(); i < 10; i++) {
+            total += i;
+          }
+        `,
+        // Numbers are added, not concatenated
+        `
+          let total: i32 = 0;
+          while (total < 100) {
+            total += step + 1;
+          }
+        `,
+        // Templates without substitutions are constants
+        `
+          do {
+            log(\`tick\`);
+          } while (running);
+        `,
+        // Methods modifying the receiver
+        `
+          for (let i = 0; i < 10; i++) {
+            values.push(i);
+            values.sort();
+          }
+        `,
+      ],
+      invalid: [
+        {
+          code: `
+            class Point {
+              constructor(public x: i32, public y: i32) {}
+            }
+            for (let i = 0; i < 10; i++) {
+              const point = new Point(i, i);
+            }
+          `,
+          errors: [
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "'new Point'" },
+            },
+          ],
+        },
+        {
+          code: `
+            while (running) {
+              const buffer = new Array<u8>(64);
+              const pair = [1, 2];
+              const options = { verbose: true };
+            }
+          `,
+          errors: [
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "'new Array'" },
+            },
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "An array literal" },
+            },
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "An object literal" },
+            },
+          ],
+        },
+        // Concatenations are reported once
+        {
+          code: `
+            let text = "";
+            for (const name of names) {
+              text += name;
+              log("name: " + name + "!");
+              log(\`name: \${name}\`);
+            }
+          `,
+          errors: [
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "String concatenation" },
+            },
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "String concatenation" },
+            },
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "A template literal" },
+            },
+          ],
+        },
+        {
+          code: `
+            const values: i32[] = [1, 2, 3];
+            for (let i = 0; i < 10; i++) {
+              const head = values.slice(0, 2);
+              const doubled = values.map<i32>((value: i32) => value * 2);
+            }
+          `,
+          errors: [
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "'.slice()'" },
+            },
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "'.map()'" },
+            },
+          ],
+        },
+        // The header of an inner loop runs in the body of the outer loop
+        {
+          code: `
+            for (let i = 0; i < 10; i++) {
+              for (const value of [i, i + 1]) {
+                total += value;
+              }
+            }
+          `,
+          errors: [{ messageId: "allocationInLoop", line: 3 }],
+        },
+      ],
+    });
+  });
+
+  it("validates the options", () => {
+    ruleTester.run("no-allocation-in-loop", noAllocationInLoop, {
+      valid: [
+        {
+          code: `
+            for (let i = 0; i < 10; i++) {
+              const point = new Vec2(i, i);
+            }
+          `,
+          options: [{ allowedConstructors: ["Vec2"] }],
+        },
+        {
+          code: `
+            for (let i = 0; i < 10; i++) {
+              const row = new Array<i32>(10);
+            }
+          `,
+          options: [{ maxLoopDepth: 1 }],
+        },
+      ],
+      invalid: [
+        {
+          code: `
+            for (let i = 0; i < 10; i++) {
+              const point = new Vec2(i, i);
+              const other = new Vec3(i, i, i);
+            }
+          `,
+          options: [{ allowedConstructors: ["Vec2"] }],
+          errors: [
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "'new Vec3'" },
+            },
+          ],
+        },
+        {
+          code: `
+            for (let i = 0; i < 10; i++) {
+              const row = new Array<i32>(10);
+              for (let j = 0; j < 10; j++) {
+                row[j] = [i, j].length;
+              }
+            }
+          `,
+          options: [{ maxLoopDepth: 1 }],
+          errors: [
+            {
+              messageId: "allocationInLoop",
+              data: { allocation: "An array literal" },
+              line: 5,
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noClosureCapture from "../../plugins/rules/noClosureCapture.js";
+
+describe("Rule: no-closure-capture", () => {
+  const ruleTester = createRuleTester();
+
+  it("validates all test cases for no-closure-capture rule", () => {
+    ruleTester.run("no-closure-capture", noClosureCapture, {
+      valid: [
+        // Valid case: module-level globals can be referenced
+        `
+        let counter: i32 = 0;
+        const step: i32 = 2;
+        function increment(): void {
+          [1, 2].forEach((x: i32) => {
+            counter += x * step;
+          });
+        }
+        `,
+        // Valid case: arrow function only using its own parameters and locals
+        `
+        function sum(values: i32[]): i32 {
+          return values.reduce((acc: i32, value: i32) => {
+            const next = acc + value;
+            return next;
+          }, 0);
+        }
+        `,
+        // Valid case: top-level arrow functions and function expressions
+        `
+        const add = (a: i32, b: i32): i32 => a + b;
+        const mul = function (a: i32, b: i32): i32 { return a * b; };
+        `,
+        // Valid case: namespace members are globals
+        `
+        namespace config {
+          export const scale: f64 = 2.0;
+          export function apply(values: f64[]): f64[] {
+            return values.map<f64>((v: f64) => v * scale);
+          }
+        }
+        `,
+        // Valid case: a named function expression can refer to itself
+        `
+        function run(): void {
+          const fib = function calc(n: i32): i32 {
+            return n < 2 ? n : calc(n - 1) + calc(n - 2);
+          };
+        }
+        `,
+        // Valid case: type parameters of the enclosing function are not values
+        `
+        function make<T>(): () => i32 {
+          return (): i32 => sizeof<T>();
+        }
+        `,
+        // Valid case: class methods referencing module-level values
+        `
+        const limit = 10;
+        class Counter {
+          count: i32 = 0;
+          inc(): void {
+            if (this.count < limit) this.count++;
+          }
+        }
+        `,
+      ],
+      invalid: [
+        // Invalid case: arrow function capturing a local variable
+        {
+          code: `
+        function scale(values: f64[], factor: f64): f64[] {
+          return values.map<f64>((v: f64) => v * factor);
+        }
+        `,
+          errors: [{ messageId: "closureCapture", data: { name: "factor" } }],
+        },
+        // Invalid case: function expression capturing a local, reported once per variable
+        {
+          code: `
+        function outer(): void {
+          let total = 0;
+          const add = function (x: i32): void {
+            total += x;
+            total++;
+          };
+        }
+        `,
+          errors: [{ messageId: "closureCapture", data: { name: "total" } }],
+        },
+        // Invalid case: nested closures, reported on the function using the variable
+        {
+          code: `
+        const make = (a: i32) => {
+          return (b: i32) => {
+            return (c: i32) => a + b + c;
+          };
+        };
+        `,
+          errors: [
+            { messageId: "closureCapture", data: { name: "a" }, line: 4 },
+            { messageId: "closureCapture", data: { name: "b" }, line: 4 },
+          ],
+        },
+        // Invalid case: nested function declaration capturing a block-scoped variable
+        {
+          code: `
+        function outer(flag: bool): void {
+          if (flag) {
+            const message = "on";
+            function log(): void {
+              trace(message);
+            }
+          }
+        }
+        `,
+          errors: [{ messageId: "closureCapture", data: { name: "message" } }],
+        },
+        // Invalid case: capturing a local function and a local class
+        {
+          code: `
+        function outer(): void {
+          function helper(): void {}
+          class Local {}
+          const run = () => {
+            helper();
+            new Local();
+          };
+        }
+        `,
+          errors: [
+            { messageId: "closureCapture", data: { name: "helper" } },
+            { messageId: "closureCapture", data: { name: "Local" } },
+          ],
+        },
+        // Invalid case: capturing from a class static block
+        {
+          code: `
+        class Registry {
+          static {
+            const base = 1;
+            const next = (x: i32) => x + base;
+          }
+        }
+        `,
+          errors: [{ messageId: "closureCapture", data: { name: "base" } }],
+        },
+      ],
+    });
+  });
+});
@@ -105,12 +105,13 @@ describe("Rule: noConcatString", () => {
       ],
 
       invalid: [
-        // Direct string concatenation with + in loop
+        // Direct string concatenation with + in loop, reported in the "all" mode
         {
           code: `
         for (let i = 0; i < 10; i++) {
           const message = "Count: " + i;
         }`,
+          options: [{ mode: "all" }],
           errors: [{ messageId: "noConcatInLoop" }],
         },
 
@@ -122,8 +123,21 @@ describe("Rule: noConcatString", () => {
           result += "Item " + i;
         }`,
           errors: [
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+        const resultParts = new Array<string>();
+        for (let i = 0; i < 10; i++) {
+          resultParts.push("Item " + i);
+        }
+        let result = resultParts.join("");`,
+                },
+              ],
+            },
           ],
         },
 
@@ -137,8 +151,23 @@ describe("Rule: noConcatString", () => {
           i++;
         }`,
           errors: [
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "strParts" },
+                  output: `
+        let i = 0;
+        const strParts = new Array<string>();
+        while (i < 10) {
+          strParts.push("Count: " + i);
+          i++;
+        }
+        let str = strParts.join("");`,
+                },
+              ],
+            },
           ],
         },
 
@@ -166,8 +195,22 @@ describe("Rule: noConcatString", () => {
           result += "Item: " + item;
         }`,
           errors: [
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+        const items = [1, 2, 3];
+        const resultParts = new Array<string>();
+        for (const item of items) {
+          resultParts.push("Item: " + item);
+        }
+        let result = resultParts.join("");`,
+                },
+              ],
+            },
           ],
         },
 
@@ -180,10 +223,22 @@ describe("Rule: noConcatString", () => {
           description += key + ": " + obj[key] + ", ";
         }`,
           errors: [
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "descriptionParts" },
+                  output: `
+        const obj = { a: 1, b: 2, c: 3 };
+        const descriptionParts = new Array<string>();
+        for (const key in obj) {
+          descriptionParts.push(key + ": " + obj[key] + ", ");
+        }
+        let description = descriptionParts.join("");`,
+                },
+              ],
+            },
           ],
         },
 
@@ -197,11 +252,23 @@ describe("Rule: noConcatString", () => {
           }
         }`,
           errors: [
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "reportParts" },
+                  output: `
+        const reportParts = new Array<string>();
+        for (let i = 0; i < 3; i++) {
+          for (let j = 0; j < 3; j++) {
+            reportParts.push("Position " + i + "," + j + "\\n");
+          }
+        }
+        let report = reportParts.join("");`,
+                },
+              ],
+            },
           ],
         },
 
@@ -212,7 +279,23 @@ describe("Rule: noConcatString", () => {
         for (let i = 0; i < 10; i++) {
           output += String(i);
         }`,
-          errors: [{ messageId: "noConcatInLoop" }],
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "outputParts" },
+                  output: `
+        const outputParts = new Array<string>();
+        for (let i = 0; i < 10; i++) {
+          outputParts.push(String(i));
+        }
+        let output = outputParts.join("");`,
+                },
+              ],
+            },
+          ],
         },
 
         // String concatenation with template literals
@@ -222,7 +305,23 @@ describe("Rule: noConcatString", () => {
         for (let i = 0; i < 10; i++) {
           text += \`Item \${i}\`;
         }`,
-          errors: [{ messageId: "noConcatInLoop" }],
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "textParts" },
+                  output: `
+        const textParts = new Array<string>();
+        for (let i = 0; i < 10; i++) {
+          textParts.push(\`Item \${i}\`);
+        }
+        let text = textParts.join("");`,
+                },
+              ],
+            },
+          ],
         },
 
         // Assignment to object property that contains strings
@@ -243,8 +342,21 @@ describe("Rule: noConcatString", () => {
             result += "prefix" + nonStringMethod();
           }`,
           errors: [
-            { messageId: "noConcatInLoop" },
-            { messageId: "noConcatInLoop" },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          const resultParts = new Array<string>();
+          for (let i = 0; i < 10; i++) {
+            resultParts.push("prefix" + nonStringMethod());
+          }
+          let result = resultParts.join("");`,
+                },
+              ],
+            },
           ],
         },
 
@@ -254,6 +366,7 @@ describe("Rule: noConcatString", () => {
           for (let i = 0; i < 10; i++) {
             const mixed = "string" + 123;
           }`,
+          options: [{ mode: "all" }],
           errors: [{ messageId: "noConcatInLoop" }],
         },
 
@@ -263,6 +376,7 @@ describe("Rule: noConcatString", () => {
           for (let i = 0; i < 10; i++) {
             const result = \`template\` + "string";
           }`,
+          options: [{ mode: "all" }],
           errors: [{ messageId: "noConcatInLoop" }],
         },
 
@@ -272,6 +386,7 @@ describe("Rule: noConcatString", () => {
           for (let i = 0; i < 10; i++) {
             const result = String(123) + "suffix";
           }`,
+          options: [{ mode: "all" }],
           errors: [{ messageId: "noConcatInLoop" }],
         },
         // Object property assignment with string concatenation
@@ -298,11 +413,42 @@ describe("Rule: noConcatString", () => {
             result += "outer " + i;
           }`,
           errors: [
-            { messageId: "noConcatInLoop" }, // nested
-            { messageId: "noConcatInLoop" }, // i
-            { messageId: "noConcatInLoop" }, // j
-            { messageId: "noConcatInLoop" }, // outer
-            { messageId: "noConcatInLoop" }, // i
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          const resultParts = new Array<string>();
+          for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 3; j++) {
+              resultParts.push("nested " + i + j);
+            }
+            resultParts.push("outer " + i);
+          }
+          let result = resultParts.join("");`,
+                },
+              ],
+            }, // nested
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          const resultParts = new Array<string>();
+          for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 3; j++) {
+              resultParts.push("nested " + i + j);
+            }
+            resultParts.push("outer " + i);
+          }
+          let result = resultParts.join("");`,
+                },
+              ],
+            }, // outer
           ],
         },
         // loop & no-loop case
@@ -314,8 +460,22 @@ describe("Rule: noConcatString", () => {
           }
           const outside = "outside " + "concatenation";`,
           errors: [
-            { messageId: "noConcatInLoop" }, // inside
-            { messageId: "noConcatInLoop" }, // i
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          const resultParts = new Array<string>();
+          for (let i = 0; i < 3; i++) {
+            resultParts.push("inside " + i);
+          }
+          let result = resultParts.join("");
+          const outside = "outside " + "concatenation";`,
+                },
+              ],
+            }, // inside
           ],
         },
         // String methods that return strings used in concatenation
@@ -336,8 +496,552 @@ describe("Rule: noConcatString", () => {
           for (let i = 0; i < 10; i++) {
             result += foo();
           }`,
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          function foo(): string {
+            return "hello";
+          }
+          const resultParts = new Array<string>();
+          for (let i = 0; i < 10; i++) {
+            resultParts.push(foo());
+          }
+          let result = resultParts.join("");`,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("uses a dedicated message for the stub runtime", () => {
+    ruleTester.run("no-concat-string", noConcatString, {
+      valid: [
+        {
+          code: `const greeting = "Hello " + name;`,
+          settings: { assemblyscript: { runtime: "stub" } },
+        },
+      ],
+      invalid: [
+        {
+          code: `
+          let result = "";
+          for (let i = 0; i < 10; i++) {
+            result += "item";
+          }`,
+          settings: { assemblyscript: { runtime: "stub" } },
+          errors: [
+            {
+              messageId: "noConcatInLoopStub",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          const resultParts = new Array<string>();
+          for (let i = 0; i < 10; i++) {
+            resultParts.push("item");
+          }
+          let result = resultParts.join("");`,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+          let result = "";
+          for (let i = 0; i < 10; i++) {
+            result = result + "item";
+          }`,
+          settings: { assemblyscript: { runtime: "incremental" } },
           errors: [{ messageId: "noConcatInLoop" }],
         },
+        // Runtime names of asc versions before 0.18
+        {
+          code: `
+          let result = "";
+          for (let i = 0; i < 10; i++) {
+            result = result + "item";
+          }`,
+          settings: { assemblyscript: { version: "0.17.14", runtime: "none" } },
+          errors: [{ messageId: "noConcatInLoopStub" }],
+        },
+        {
+          code: `
+          let result = "";
+          for (let i = 0; i < 10; i++) {
+            result = result + "item";
+          }`,
+          settings: { assemblyscript: { version: "0.17.14", runtime: "half" } },
+          errors: [{ messageId: "noConcatInLoop" }],
+        },
+      ],
+    });
+  });
+
+  it("suggests collecting the parts in an array", () => {
+    ruleTester.run("no-concat-string", noConcatString, {
+      valid: [],
+      invalid: [
+        // The string is declared right before the loop and only appended to
+        {
+          code: `
+          function build(items: string[]): string {
+            let result: string = "";
+            for (let i = 0; i < items.length; i++) {
+              result += items[i];
+            }
+            return result;
+          }`,
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "resultParts" },
+                  output: `
+          function build(items: string[]): string {
+            const resultParts = new Array<string>();
+            for (let i = 0; i < items.length; i++) {
+              resultParts.push(items[i]);
+            }
+            let result: string = resultParts.join("");
+            return result;
+          }`,
+                },
+              ],
+            },
+          ],
+        },
+        // A non-empty initial value is kept and the parts are appended to it
+        {
+          code: `
+          let out = "start:";
+          for (const item of ["a", "b"]) out += item;`,
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "outParts" },
+                  output: `
+          let out = "start:";
+          const outParts = new Array<string>();
+          for (const item of ["a", "b"]) outParts.push(item);
+          out += outParts.join("");`,
+                },
+              ],
+            },
+          ],
+        },
+        // Every append is rewritten and the name doesn't clash with other variables
+        {
+          code: `
+          const sParts = 0;
+          let s = "";
+          while (sParts < 3) {
+            const sParts2 = "x";
+            s += "a";
+            s += sParts2;
+          }`,
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "sParts3" },
+                  output: `
+          const sParts = 0;
+          const sParts3 = new Array<string>();
+          while (sParts < 3) {
+            const sParts2 = "x";
+            sParts3.push("a");
+            sParts3.push(sParts2);
+          }
+          let s = sParts3.join("");`,
+                },
+              ],
+            },
+            {
+              messageId: "noConcatInLoop",
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "sParts3" },
+                  output: `
+          const sParts = 0;
+          const sParts3 = new Array<string>();
+          while (sParts < 3) {
+            const sParts2 = "x";
+            sParts3.push("a");
+            sParts3.push(sParts2);
+          }
+          let s = sParts3.join("");`,
+                },
+              ],
+            },
+          ],
+        },
+        // Report only: the string is read inside the loop
+        {
+          code: `
+          let s = "";
+          for (let i = 0; i < 3; i++) {
+            s += "a";
+            log(s);
+          }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        {
+          code: `
+          let s = "";
+          while (s.length < 10) {
+            s += "a";
+          }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // Report only: the string is not declared right before the loop
+        {
+          code: `
+          let s = "";
+          log(s);
+          for (let i = 0; i < 3; i++) {
+            s += "a";
+          }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // Report only: the appended value is not a string
+        {
+          code: `
+          let s = "";
+          for (let i = 0; i < 3; i++) {
+            s += i;
+          }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // Report only: parameters and variables declared together
+        {
+          code: `
+          function join(s: string, items: string[]): string {
+            for (const item of items) {
+              s += item;
+            }
+            let a = "", b = "";
+            for (const item of items) {
+              a += item;
+            }
+            return s + a + b;
+          }`,
+          errors: [
+            { messageId: "noConcatInLoop", suggestions: [] },
+            { messageId: "noConcatInLoop", suggestions: [] },
+          ],
+        },
+        // Report only: a property is appended to
+        {
+          code: `
+          const obj = { message: "" };
+          for (let i = 0; i < 3; i++) {
+            obj.message += "a";
+          }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+      ],
+    });
+  });
+
+  it("detects template literals, concat() and callbacks", () => {
+    ruleTester.run("no-concat-string", noConcatString, {
+      valid: [
+        // Template literals not wrapping the assigned variable
+        `
+      let s = "";
+      for (let i = 0; i < 10; i++) {
+        const label = \`item \${i}\`;
+        s = \`\${i}\`;
+      }`,
+        // concat() on another string or on arrays
+        `
+      let s = "";
+      let list: i32[] = [];
+      for (let i = 0; i < 10; i++) {
+        s = prefix.concat("x");
+        list = list.concat([i]);
+      }`,
+        // Templates and concat() outside loops
+        `
+      let s = "a";
+      s = \`\${s}b\`;
+      s = s.concat("c");`,
+        // Callbacks of other calls and non-iterating array methods
+        `
+      let s = "";
+      run(() => { s += "x"; });
+      items.indexOf(() => { s += "x"; });
+      items[method]((item: string) => { s += item; });`,
+        // Recursive functions are only checked with the option
+        `
+      function repeat(s: string, n: i32): string {
+        if (n === 0) return s;
+        return repeat(s + "x", n - 1);
+      }`,
+        // Non-recursive functions with the option
+        {
+          code: `
+      function greet(name: string): string {
+        return "Hello " + name;
+      }
+      const f = (s: string): string => s + "x";
+      class Builder {
+        build(s: string): string {
+          return this.other(s + "x");
+        }
+        other(s: string): string { return s; }
+      }
+      function outer(): void {}
+      function wrap(s: string): string {
+        outer();
+        return s + "x";
+      }`,
+          options: [{ checkRecursive: true }],
+        },
+      ],
+      invalid: [
+        // Template literal wrapping the accumulator
+        {
+          code: `
+      let s = "";
+      for (let i = 0; i < 10; i++) {
+        s = \`\${s}item\`;
+      }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // Template literal wrapping a property
+        {
+          code: `
+      while (running) {
+        this.log = \`\${this.log}\\n\${line}\`;
+      }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // concat() on the accumulator
+        {
+          code: `
+      let s = "";
+      for (const part of parts) {
+        s = s.concat(part);
+      }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // Concatenation inside forEach, map and reduce callbacks
+        {
+          code: `
+      let s = "";
+      items.forEach((item: string) => {
+        s += item;
+      });
+      const labels = items.map(function (item: string): string {
+        return "#" + item;
+      });
+      const joined = items.reduce((acc: string, item: string) => acc + item, "");`,
+          options: [{ mode: "all" }],
+          errors: [
+            { messageId: "noConcatInLoop", line: 4, suggestions: [] },
+            { messageId: "noConcatInLoop", line: 7 },
+            { messageId: "noConcatInLoop", line: 9 },
+          ],
+        },
+        // The loop ends with the callback
+        {
+          code: `
+      items.forEach((item: string) => {});
+      const s = "a" + "b";
+      items.forEach((item: string) => {
+        const t = item + "!";
+      });`,
+          options: [{ mode: "all" }],
+          errors: [{ messageId: "noConcatInLoop", line: 5 }],
+        },
+        // Recursive function declarations, expressions and methods
+        {
+          code: `
+      function repeat(s: string, n: i32): string {
+        if (n === 0) return s;
+        return repeat(s + "x", n - 1);
+      }
+      const indent = (s: string, n: i32): string =>
+        n > 0 ? indent("  " + s, n - 1) : s;
+      const pad = function inner(s: string, n: i32): string {
+        return n > 0 ? inner(s + " ", n - 1) : s;
+      };
+      class Tree {
+        print(prefix: string): void {
+          this.print(prefix + "-");
+        }
+      }`,
+          options: [{ checkRecursive: true }],
+          errors: [
+            { messageId: "noConcatInLoop", line: 4 },
+            { messageId: "noConcatInLoop", line: 7 },
+            { messageId: "noConcatInLoop", line: 9 },
+            { messageId: "noConcatInLoop", line: 13 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reports only accumulating concatenations by default", () => {
+    ruleTester.run("no-concat-string", noConcatString, {
+      valid: [
+        // Results passed to calls or kept in variables of the iteration
+        `
+      for (let i = 0; i < 10; i++) {
+        log("i=" + i);
+        const key = "key:" + name;
+        let line = "";
+        line += "a";
+        line = line + \`\${i}\`;
+      }`,
+        // Properties of objects created in the iteration
+        `
+      while (running) {
+        const entry = new Entry();
+        entry.label = "#" + name;
+        entry.text += name;
+      }`,
+        // Callback parameters are created per call
+        `
+      items.forEach((item: string) => {
+        item += "!";
+      });
+      const labels = items.map((item: string): string => "#" + item);`,
+        // Returned from a loop in a function
+        `
+      function find(items: string[]): string {
+        for (const item of items) {
+          if (item.length > 3) return "found " + item;
+        }
+        return "";
+      }`,
+        // Concatenation in a recursive function which doesn't accumulate
+        {
+          code: `
+      function walk(node: Node, depth: i32): void {
+        log("node " + node.name);
+        for (const child of node.children) walk(child, depth + 1);
+      }`,
+          options: [{ checkRecursive: true }],
+        },
+      ],
+      invalid: [
+        // Variables declared before the loop
+        {
+          code: `
+      let s = "";
+      for (let i = 0; i < 10; i++) {
+        s = s + i;
+        s = "#" + name;
+      }`,
+          errors: [
+            { messageId: "noConcatInLoop", line: 4 },
+            { messageId: "noConcatInLoop", line: 5 },
+          ],
+        },
+        // Reported once on the += assignment
+        {
+          code: `
+      let s = "";
+      for (let i = 0; i < items.length; i++) {
+        s += "," + items[i];
+      }`,
+          errors: [
+            {
+              messageId: "noConcatInLoop",
+              line: 4,
+              suggestions: [
+                {
+                  messageId: "useArrayJoin",
+                  data: { name: "sParts" },
+                  output: `
+      const sParts = new Array<string>();
+      for (let i = 0; i < items.length; i++) {
+        sParts.push("," + items[i]);
+      }
+      let s = sParts.join("");`,
+                },
+              ],
+            },
+          ],
+        },
+        // Properties of this and of objects declared before the loop
+        {
+          code: `
+      class Logger {
+        log: string = "";
+        write(lines: string[], state: State): void {
+          for (const line of lines) {
+            this.log += line;
+            state.buffer!.text = state.buffer!.text + line;
+          }
+        }
+      }`,
+          errors: [
+            { messageId: "noConcatInLoop", line: 6, suggestions: [] },
+            { messageId: "noConcatInLoop", line: 7 },
+          ],
+        },
+        // Variables of the outer loop body accumulate in the inner loop
+        {
+          code: `
+      for (const row of rows) {
+        let line = "";
+        for (const cell of row) {
+          line += cell;
+        }
+      }`,
+          errors: [{ messageId: "noConcatInLoop", line: 5, suggestions: [] }],
+        },
+        // Variables declared in the loop header
+        {
+          code: `
+      for (let s = ""; s.length < 10; ) {
+        s += "a";
+      }`,
+          errors: [{ messageId: "noConcatInLoop", suggestions: [] }],
+        },
+        // Results returned to the next reduce callback or recursive call
+        {
+          code: `
+      const a = items.reduce((acc: string, item: string) => acc + item, "");
+      const b = items.reduceRight((acc: string, item: string): string => {
+        return acc + item;
+      }, "");
+      function repeat(n: i32): string {
+        return n > 0 ? "x" : "";
+      }
+      function join(n: i32): string {
+        if (n === 0) return "";
+        return join(n - 1) + "x";
+      }`,
+          options: [{ checkRecursive: true }],
+          errors: [
+            { messageId: "noConcatInLoop", line: 2 },
+            { messageId: "noConcatInLoop", line: 4 },
+            { messageId: "noConcatInLoop", line: 11 },
+          ],
+        },
       ],
     });
   });
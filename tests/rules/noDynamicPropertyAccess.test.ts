@@ -0,0 +1,126 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noDynamicPropertyAccess from "../../plugins/rules/noDynamicPropertyAccess.js";
+
+describe("Rule: no-dynamic-property-access", () => {
+  const ruleTester = createRuleTester();
+
+  it("reports computed access on types which can't be indexed", () => {
+    ruleTester.run("no-dynamic-property-access", noDynamicPropertyAccess, {
+      valid: [
+        // Valid case: arrays, typed arrays, maps and strings
+        `
+        const values: i32[] = [1, 2];
+        const list = new Array<f64>(2);
+        const fixed = new StaticArray<u8>(4);
+        const bytes = new Uint8Array(4);
+        const counts = new Map<string, i32>();
+        const text = "text";
+        values[0] = list[1] + fixed[2] + bytes[3] + counts["a"] + text.length;
+        const first = text[0];
+        `,
+        // Valid case: classes overloading the index operators, also inherited
+        `
+        class Grid {
+          @operator("[]")
+          get(index: i32): f64 {
+            return 0;
+          }
+          @operator("[]=")
+          set(index: i32, value: f64): void {}
+        }
+        class Board extends Grid {}
+        class Row {
+          @operator("{}")
+          get(index: i32): f64 {
+            return 0;
+          }
+        }
+        const board = new Board();
+        board[0] = board[1] + new Row()[2];
+        const grid: Grid | null = null;
+        grid![0] += 1;
+        `,
+        // Valid case: non-computed access
+        `
+        class Point {
+          x: f64 = 0;
+        }
+        const point = new Point();
+        point.x = 1;
+        `,
+      ],
+      invalid: [
+        // Invalid case: class instances without index operators
+        {
+          code: `
+        class Point {
+          x: f64 = 0;
+          y: f64 = 0;
+        }
+        const point = new Point();
+        const key = "x";
+        const x = point[key];
+        point["y"] = 1;
+        `,
+          errors: [
+            {
+              messageId: "dynamicAccess",
+              data: { type: "Point", operator: "[]" },
+              line: 8,
+            },
+            {
+              messageId: "dynamicAccess",
+              data: { type: "Point", operator: "[]=" },
+              line: 9,
+            },
+          ],
+        },
+        // Invalid case: string-keyed index signatures
+        {
+          code: `
+        interface Registry {
+          [name: string]: i32;
+        }
+        function lookup(registry: Registry, name: string): i32 {
+          return registry[name];
+        }
+        `,
+          errors: [
+            {
+              messageId: "dynamicAccess",
+              data: { type: "Registry", operator: "[]" },
+              line: 6,
+            },
+          ],
+        },
+        // Invalid case: assignments need the set operator
+        {
+          code: `
+        class Lookup {
+          @operator("[]")
+          get(index: i32): f64 {
+            return 0;
+          }
+        }
+        const values = new Lookup();
+        values[0] = 1;
+        values[1]++;
+        `,
+          errors: [
+            {
+              messageId: "dynamicAccess",
+              data: { type: "Lookup", operator: "[]=" },
+              line: 9,
+            },
+            {
+              messageId: "dynamicAccess",
+              data: { type: "Lookup", operator: "[]=" },
+              line: 10,
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
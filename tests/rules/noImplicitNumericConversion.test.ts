@@ -0,0 +1,429 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noImplicitNumericConversion from "../../plugins/rules/noImplicitNumericConversion.js";
+
+describe("Rule: no-implicit-numeric-conversion", () => {
+  const ruleTester = createRuleTester();
+
+  it("reports lossy conversions in assignments, arguments and returns", () => {
+    ruleTester.run(
+      "no-implicit-numeric-conversion",
+      noImplicitNumericConversion,
+      {
+        valid: [
+          // Valid case: lossless conversions, e.g. i32 to f64 or u8 to i32
+          `
+        let small: u8 = 1;
+        let count: i32 = small;
+        let total: f64 = count;
+        let unsigned: u32 = count;
+        function widen(value: f32): f64 {
+          return value;
+        }
+        `,
+          // Valid case: literals take the type of their context
+          `
+        let ratio: f32 = 0.5;
+        let negative: f64 = -1.5;
+        let big: i64 = 1;
+        const scale = (value: f32): f32 => value * 2.0;
+        `,
+          // Valid case: explicit conversions
+          `
+        let ratio: f64 = 1.5;
+        let count: i32 = <i32>ratio;
+        let truncated: i32 = i32(ratio);
+        let ticks: i64 = 1000;
+        let low: i32 = ticks as i32;
+        `,
+          // Valid case: values and targets of unknown type are not checked
+          `
+        function compute(value: f64) {
+          return value;
+        }
+        let count: i32 = compute(1.5);
+        const values = [1.5];
+        let first: i32 = values[0];
+        `,
+          // Valid case: lengths and char codes are i32 in AssemblyScript
+          `
+        function take(value: i32): void {}
+        function size(items: i32[], text: string): i32 {
+          const n: i32 = items.length;
+          take(text.length);
+          let code: i32 = text.charCodeAt(0);
+          return items.length;
+        }
+        `,
+        ],
+        invalid: [
+          // Invalid case: floats and wider integers in declarations and fields
+          {
+            code: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+            errors: [
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i32" },
+                line: 3,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = <i32>ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = i32(ratio);
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+                  },
+                ],
+              },
+              {
+                messageId: "implicitConversion",
+                data: { from: "i64", to: "i32" },
+                line: 5,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = <i32>(ticks + 1);
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = i32(ticks + 1);
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+                  },
+                ],
+              },
+              {
+                messageId: "implicitConversion",
+                data: { from: "i32", to: "u8" },
+                line: 6,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "u8" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = <u8>count;
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "u8" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = u8(count);
+        class Sample {
+          value: f32 = ratio;
+        }
+        `,
+                  },
+                ],
+              },
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "f32" },
+                line: 8,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "f32" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = <f32>ratio;
+        }
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "f32" },
+                    output: `
+        let ratio: f64 = 1.5;
+        let count: i32 = ratio;
+        let ticks: i64 = 1000;
+        let low: i32 = ticks + 1;
+        let byte: u8 = count;
+        class Sample {
+          value: f32 = f32(ratio);
+        }
+        `,
+                  },
+                ],
+              },
+            ],
+          },
+          // Invalid case: assignments to variables and array elements
+          {
+            code: `
+        let ratio: f64 = 0.5;
+        let count: i32 = 0;
+        const counts: StaticArray<i32> = new StaticArray<i32>(1);
+        count = ratio;
+        counts[0] = -1.5;
+        `,
+            errors: [
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i32" },
+                line: 5,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 0.5;
+        let count: i32 = 0;
+        const counts: StaticArray<i32> = new StaticArray<i32>(1);
+        count = <i32>ratio;
+        counts[0] = -1.5;
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 0.5;
+        let count: i32 = 0;
+        const counts: StaticArray<i32> = new StaticArray<i32>(1);
+        count = i32(ratio);
+        counts[0] = -1.5;
+        `,
+                  },
+                ],
+              },
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i32" },
+                line: 6,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 0.5;
+        let count: i32 = 0;
+        const counts: StaticArray<i32> = new StaticArray<i32>(1);
+        count = ratio;
+        counts[0] = <i32>(-1.5);
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        let ratio: f64 = 0.5;
+        let count: i32 = 0;
+        const counts: StaticArray<i32> = new StaticArray<i32>(1);
+        count = ratio;
+        counts[0] = i32(-1.5);
+        `,
+                  },
+                ],
+              },
+            ],
+          },
+          // Invalid case: arguments of calls and constructors
+          {
+            code: `
+        function square(value: i32): i32 {
+          return value * value;
+        }
+        let size: f64 = 2;
+        square(size);
+        new StaticArray<u8>(size);
+        `,
+            errors: [
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i32" },
+                line: 6,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        function square(value: i32): i32 {
+          return value * value;
+        }
+        let size: f64 = 2;
+        square(<i32>size);
+        new StaticArray<u8>(size);
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        function square(value: i32): i32 {
+          return value * value;
+        }
+        let size: f64 = 2;
+        square(i32(size));
+        new StaticArray<u8>(size);
+        `,
+                  },
+                ],
+              },
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i32" },
+                line: 7,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        function square(value: i32): i32 {
+          return value * value;
+        }
+        let size: f64 = 2;
+        square(size);
+        new StaticArray<u8>(<i32>size);
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        function square(value: i32): i32 {
+          return value * value;
+        }
+        let size: f64 = 2;
+        square(size);
+        new StaticArray<u8>(i32(size));
+        `,
+                  },
+                ],
+              },
+            ],
+          },
+          // Invalid case: returns, including expression bodies of arrow functions
+          {
+            code: `
+        function half(value: i32): i32 {
+          return value / 2.0;
+        }
+        const floor = (value: f64): i64 => value;
+        `,
+            errors: [
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i32" },
+                line: 3,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i32" },
+                    output: `
+        function half(value: i32): i32 {
+          return <i32>(value / 2.0);
+        }
+        const floor = (value: f64): i64 => value;
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i32" },
+                    output: `
+        function half(value: i32): i32 {
+          return i32(value / 2.0);
+        }
+        const floor = (value: f64): i64 => value;
+        `,
+                  },
+                ],
+              },
+              {
+                messageId: "implicitConversion",
+                data: { from: "f64", to: "i64" },
+                line: 5,
+                suggestions: [
+                  {
+                    messageId: "castAssertion",
+                    data: { type: "i64" },
+                    output: `
+        function half(value: i32): i32 {
+          return value / 2.0;
+        }
+        const floor = (value: f64): i64 => <i64>value;
+        `,
+                  },
+                  {
+                    messageId: "castCall",
+                    data: { type: "i64" },
+                    output: `
+        function half(value: i32): i32 {
+          return value / 2.0;
+        }
+        const floor = (value: f64): i64 => i64(value);
+        `,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noObjectLiteralWithoutClass from "../../plugins/rules/noObjectLiteralWithoutClass.js";
+
+describe("Rule: no-object-literal-without-class", () => {
+  const ruleTester = createRuleTester();
+
+  it("requires object literals to create class instances", () => {
+    ruleTester.run(
+      "no-object-literal-without-class",
+      noObjectLiteralWithoutClass,
+      {
+        valid: [
+          // Valid case: literals typed with a class and setting its fields
+          `
+        class Point {
+          x: f64 = 0;
+          y: f64 = 0;
+        }
+        const origin: Point = { x: 0, y: 0 };
+        let target: Point | null = { x: 1 };
+        function move(point: Point): void {}
+        move({ y: 2 });
+        const points: Point[] = [{ x: 3, y: 4 }];
+        `,
+          // Valid case: inherited fields and parameter properties
+          `
+        class Base {
+          constructor(public id: i32 = 0) {}
+        }
+        class Item extends Base {
+          name: string = "";
+        }
+        const item: Item = { id: 1, name: "item" };
+        `,
+        ],
+        invalid: [
+          // Invalid case: untyped literals of a variable named like a class
+          {
+            code: `
+        class Config {
+          size: i32 = 0;
+          name: string = "";
+        }
+        const config = { size: 4, name: "config" };
+        `,
+            errors: [
+              {
+                messageId: "missingClass",
+                line: 6,
+                suggestions: [
+                  {
+                    messageId: "useClass",
+                    data: { className: "Config" },
+                    output: `
+        class Config {
+          size: i32 = 0;
+          name: string = "";
+        }
+        const config = new Config();
+        config.size = 4;
+        config.name = "config";
+        `,
+                  },
+                ],
+              },
+            ],
+          },
+          // Invalid case: no suggestion without a matching class to create
+          {
+            code: `
+        const other = { b: 2 };
+        class Sized {
+          constructor(public size: i32) {}
+        }
+        const sized = { size: 1 };
+        class Point {
+          x: f64 = 0;
+        }
+        const point = { x: 1, z: 2 };
+        `,
+            errors: [
+              { messageId: "missingClass", line: 2, suggestions: [] },
+              { messageId: "missingClass", line: 6, suggestions: [] },
+              { messageId: "missingClass", line: 10, suggestions: [] },
+            ],
+          },
+          // Invalid case: literals typed with interfaces and type literals
+          {
+            code: `
+        interface Options {
+          verbose: bool;
+        }
+        function run(options: Options): void {}
+        run({ verbose: true });
+        let options: Options = { verbose: false };
+        let size: { width: i32 } = { width: 1 };
+        `,
+            errors: [
+              {
+                messageId: "notAClass",
+                data: { type: "Options" },
+                line: 6,
+                suggestions: [],
+              },
+              {
+                messageId: "notAClass",
+                data: { type: "Options" },
+                line: 7,
+                suggestions: [],
+              },
+              {
+                messageId: "notAClass",
+                data: { type: "{ width: number; }" },
+                line: 8,
+                suggestions: [],
+              },
+            ],
+          },
+          // Invalid case: no suggestion for methods, computed keys and nested literals
+          {
+            code: `
+        const handler = { run(): void {} };
+        const key = "a";
+        const table = { [key]: 1 };
+        function create(): void {
+          const outer = { inner: { value: 1 } };
+        }
+        `,
+            errors: [
+              { messageId: "missingClass", line: 2, suggestions: [] },
+              { messageId: "missingClass", line: 4, suggestions: [] },
+              {
+                messageId: "missingClass",
+                line: 6,
+                column: 25,
+                suggestions: [],
+              },
+              {
+                messageId: "missingClass",
+                line: 6,
+                column: 34,
+                suggestions: [],
+              },
+            ],
+          },
+          // Invalid case: keys which are no fields of the class
+          {
+            code: `
+        class Point {
+          x: f64 = 0;
+          y: f64 = 0;
+          length(): f64 {
+            return 0;
+          }
+        }
+        const point: Point = { x: 1, z: 2, length: 3 };
+        `,
+            errors: [
+              {
+                messageId: "unknownField",
+                data: { key: "z", className: "Point" },
+                line: 9,
+              },
+              {
+                messageId: "unknownField",
+                data: { key: "length", className: "Point" },
+                line: 9,
+              },
+            ],
+          },
+        ],
+      }
+    );
+  });
+});
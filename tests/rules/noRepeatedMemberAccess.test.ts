@@ -84,18 +84,67 @@ describe("Rule: no-spread", () => {
     const v2 = obj[123].value;
     const v3 = obj[123].value;
   `,
-        // shouldn't report when modified
+        // shouldn't report when modified between the accesses
         `
         const v1 = a.b.c;
         a.b = {}; 
         const v2 = a.b.c; 
-        const v3 = a.b.c; 
         `,
         `
-        const v1 = a.b.c;
-        a.b = a.b + 1;
-        const v2 = a.b.c; 
-        const v3 = a.b.c; 
+        use(o.a.x);
+        if (cond) {
+          o.a = other;
+        }
+        use(o.a.x);
+        `,
+        `
+        use(a.b.c);
+        for (let i = 0; i < n; i++) {
+          a.b = next(a.b);
+        }
+        use(a.b.c);
+        `,
+        // calls modify the properties of their receiver and arguments
+        `
+        use(a.b.x);
+        a!.reset();
+        use(a.b.x);
+        `,
+        `
+        class A {
+          a: B;
+          m(): void {
+            use(this.a.x);
+            this.reset();
+            use(this.a.x);
+          }
+        }
+        `,
+        `
+        function f(o: { v: { w: number } }) {
+          use(o.v.w);
+          update(o);
+          use(o.v.w);
+        }
+        `,
+        // called methods are not extracted
+        `
+        obj.method();
+        obj.method();
+        `,
+        // reassigning the base variable modifies the chain
+        `
+        const first = w.x.y;
+        w = other;
+        const second = w.x.y;
+        `,
+        // accesses on mutually exclusive paths are counted once
+        "const q = cond ? a.b.c : a.b.c;",
+        `
+        function f(cond: bool): i32 {
+          if (cond) return a.b.c;
+          return a.b.c + 1;
+        }
         `,
       ],
 
@@ -107,6 +156,12 @@ describe("Rule: no-spread", () => {
               const v2 = ctx.data.v2;
               const v3 = ctx.data.v3;
               `,
+          output: `
+              const data = ctx.data;
+              const v1 = data.v1;
+              const v2 = data.v2;
+              const v3 = data.v3;
+              `,
           errors: [{ messageId: "repeatedAccess" }],
         },
         {
@@ -115,6 +170,21 @@ describe("Rule: no-spread", () => {
               const v2 = a.b.c;
               const v3 = a.b.c; 
               `,
+          output: [
+            `
+              const b = a.b;
+              const v1 = b.c;
+              const v2 = b.c;
+              const v3 = b.c; 
+              `,
+            `
+              const b = a.b;
+              const c = b.c;
+              const v1 = c;
+              const v2 = c;
+              const v3 = c; 
+              `,
+          ],
           errors: [
             { messageId: "repeatedAccess" },
             { messageId: "repeatedAccess" },
@@ -129,6 +199,38 @@ describe("Rule: no-spread", () => {
     const data = a.b.c;
 
     `,
+          output: [
+            `
+    const d = a.b.c.d;
+    const data = d;
+    const data = d;
+    const data = d;
+    const data = a.b.c;
+    const data = a.b.c;
+
+    `,
+            `
+    const b = a.b;
+    const d = b.c.d;
+    const data = d;
+    const data = d;
+    const data = d;
+    const data = b.c;
+    const data = b.c;
+
+    `,
+            `
+    const b = a.b;
+    const c = b.c;
+    const d = c.d;
+    const data = d;
+    const data = d;
+    const data = d;
+    const data = c;
+    const data = c;
+
+    `,
+          ],
           errors: [
             { messageId: "repeatedAccess" },
             { messageId: "repeatedAccess" },
@@ -143,6 +245,15 @@ describe("Rule: no-spread", () => {
             this.log = service.user.logger
             this.cat = service.user.cat
           }
+        }`,
+          output: `
+        class User {
+          constructor() {
+            const user = service.user;
+            this.profile = user.profile
+            this.log = user.logger
+            this.cat = user.cat
+          }
         }`,
           errors: [{ messageId: "repeatedAccess" }],
         },
@@ -155,6 +266,25 @@ describe("Rule: no-spread", () => {
           return obj.a.b.d;
         }
       `,
+          output: [
+            `
+        function demo() {
+          const a = obj.a;
+          console.log(a.b.c);
+          let x = a.b;
+          return a.b.d;
+        }
+      `,
+            `
+        function demo() {
+          const a = obj.a;
+          const b = a.b;
+          console.log(b.c);
+          let x = b;
+          return b.d;
+        }
+      `,
+          ],
           errors: [
             { messageId: "repeatedAccess" },
             { messageId: "repeatedAccess" },
@@ -166,8 +296,704 @@ describe("Rule: no-spread", () => {
           const b = data.x * 2;
           notify(data.x);
         `,
+          output: `
+          const x = data.x;
+          const a = x + data.y;
+          const b = x * 2;
+          notify(x);
+        `,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        // Accesses between two writes are grouped together
+        {
+          code: `
+        const v1 = a.b.c;
+        a.b = {}; 
+        const v2 = a.b.c; 
+        const v3 = a.b.c; 
+        `,
+          output: [
+            `
+        const v1 = a.b.c;
+        a.b = {}; 
+        const b = a.b;
+        const v2 = b.c; 
+        const v3 = b.c; 
+        `,
+            `
+        const v1 = a.b.c;
+        a.b = {}; 
+        const b = a.b;
+        const c = b.c;
+        const v2 = c; 
+        const v3 = c; 
+        `,
+          ],
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "a.b" } },
+            { messageId: "repeatedAccess", data: { chain: "a.b.c" } },
+          ],
+        },
+        {
+          code: `
+        const v1 = a.b.c;
+        a.b = a.b + 1;
+        const v2 = a.b.c; 
+        const v3 = a.b.c; 
+        `,
+          output: [
+            `
+        const b = a.b;
+        const v1 = b.c;
+        a.b = b + 1;
+        const b2 = a.b;
+        const v2 = b2.c; 
+        const v3 = b2.c; 
+        `,
+            `
+        const b = a.b;
+        const v1 = b.c;
+        a.b = b + 1;
+        const b2 = a.b;
+        const c = b2.c;
+        const v2 = c; 
+        const v3 = c; 
+        `,
+          ],
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "a.b" } },
+            { messageId: "repeatedAccess", data: { chain: "a.b" } },
+            { messageId: "repeatedAccess", data: { chain: "a.b.c" } },
+          ],
+        },
+        // A write after all accesses doesn't prevent the report
+        {
+          code: `
+        const x = o.a.x;
+        const y = o.a.x;
+        o.a = other;
+        `,
+          output: [
+            `
+        const a = o.a;
+        const x = a.x;
+        const y = a.x;
+        o.a = other;
+        `,
+            `
+        const a = o.a;
+        const x2 = a.x;
+        const x = x2;
+        const y = x2;
+        o.a = other;
+        `,
+          ],
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "o.a" } },
+            { messageId: "repeatedAccess", data: { chain: "o.a.x" } },
+          ],
+        },
+        // A method call only modifies the properties of its receiver
+        {
+          code: `
+        x = a.b.c;
+        a.b.doSomething();
+        y = a.b.c;
+        z = a.b.c;
+        `,
+          output: [
+            `
+        const b = a.b;
+        x = b.c;
+        b.doSomething();
+        y = b.c;
+        z = b.c;
+        `,
+            `
+        const b = a.b;
+        x = b.c;
+        b.doSomething();
+        const c = b.c;
+        y = c;
+        z = c;
+        `,
+          ],
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "a.b" } },
+            { messageId: "repeatedAccess", data: { chain: "a.b.c" } },
+          ],
+        },
+        // A method call only modifies the properties of its receiver
+        {
+          code: `
+        class List {
+          items: i32[] = [];
+          add(x: i32): void {
+            const n = this.items.length;
+            this.items.push(x);
+            const m = this.items.length;
+          }
+        }
+        `,
+          output: `
+        class List {
+          items: i32[] = [];
+          add(x: i32): void {
+            const items = this.items;
+            const n = items.length;
+            items.push(x);
+            const m = items.length;
+          }
+        }
+        `,
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "this.items" } },
+          ],
+        },
+        // Writing an element only modifies the elements
+        {
+          code: `
+        use(arr.v.length);
+        arr.v[0] = 1;
+        getArr()[0] = 2;
+        getArr()[1]++;
+        use(arr.v.length);
+        `,
+          output: `
+        const v = arr.v;
+        use(v.length);
+        v[0] = 1;
+        getArr()[0] = 2;
+        getArr()[1]++;
+        use(v.length);
+        `,
+          errors: [{ messageId: "repeatedAccess", data: { chain: "arr.v" } }],
+        },
+        // Calls can't modify values of primitive types
+        {
+          code: `
+        function f(s: string, o: { v: { w: number } }) {
+          use(o.v.w);
+          s.toUpperCase();
+          update(s);
+          use(o.v.w);
+        }
+        `,
+          output: [
+            `
+        function f(s: string, o: { v: { w: number } }) {
+          const v = o.v;
+          use(v.w);
+          s.toUpperCase();
+          update(s);
+          use(v.w);
+        }
+        `,
+            `
+        function f(s: string, o: { v: { w: number } }) {
+          const v = o.v;
+          const w = v.w;
+          use(w);
+          s.toUpperCase();
+          update(s);
+          use(w);
+        }
+        `,
+          ],
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "o.v" } },
+            { messageId: "repeatedAccess", data: { chain: "o.v.w" } },
+          ],
+        },
+        // No fix if the chain is written inside the statement before the accesses
+        {
+          code: "use(a.b.c, a.b.c = 1, a.b.c, a.b.c);",
+          output: "const b = a.b;\nuse(b.c, b.c = 1, b.c, b.c);",
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "a.b" } },
+            { messageId: "repeatedAccess", data: { chain: "a.b.c" } },
+          ],
+        },
+        // Extracted variable name avoids collisions within the scope
+        {
+          code: `
+          function f(o) {
+            const x = 1;
+            use(o.x, o.x, x);
+          }
+        `,
+          output: `
+          function f(o) {
+            const x = 1;
+            const x2 = o.x;
+            use(x2, x2, x);
+          }
+        `,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        // Chains in a for-loop initializer are declared before the loop
+        {
+          code: "for (let i = o.a.start; i < o.a.end; i++) {}",
+          output: "const a = o.a;\nfor (let i = a.start; i < a.end; i++) {}",
           errors: [{ messageId: "repeatedAccess" }],
         },
+        // Hoisting from a loop condition is only suggested
+        {
+          code: `
+          function f(obj) {
+            while (obj.a.c > 0) {
+              foo();
+            }
+            return obj.a.c;
+          }
+        `,
+          output: null,
+          errors: [
+            {
+              messageId: "repeatedAccess",
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          function f(obj) {
+            const a = obj.a;
+            while (a.c > 0) {
+              foo();
+            }
+            return a.c;
+          }
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "repeatedAccess",
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          function f(obj) {
+            const c = obj.a.c;
+            while (c > 0) {
+              foo();
+            }
+            return c;
+          }
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Hoisting from a conditionally evaluated operand is only suggested
+        {
+          code: `
+          x && o.a.b;
+          use(o.a.b);
+        `,
+          output: null,
+          errors: [
+            {
+              messageId: "repeatedAccess",
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          const a = o.a;
+          x && a.b;
+          use(a.b);
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "repeatedAccess",
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          const b = o.a.b;
+          x && b;
+          use(b);
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Accesses after a modification are left untouched
+        {
+          code: `
+          const v1 = o.a.x;
+          const v2 = o.a.y;
+          o.a = {};
+          const v3 = o.a.z;
+        `,
+          output: `
+          const a = o.a;
+          const v1 = a.x;
+          const v2 = a.y;
+          o.a = {};
+          const v3 = o.a.z;
+        `,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        // Chains evaluated once by their statement are hoisted in front of it
+        {
+          code: "for (const item of o.a.items) use(o.a.x);",
+          output: "const a = o.a;\nfor (const item of a.items) use(a.x);",
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: "for (const k in o.a.m) use(o.a.x);",
+          output: "const a = o.a;\nfor (const k in a.m) use(a.x);",
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: "if (o.a.ok) use(o.a.x);",
+          output: "const a = o.a;\nif (a.ok) use(a.x);",
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: "const v = o.a.ok ? o.a.x : 0;",
+          output: "const a = o.a;\nconst v = a.ok ? a.x : 0;",
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: `
+          switch (o.a.kind) {
+            case 1:
+              use(o.a.x);
+          }
+        `,
+          output: `
+          const a = o.a;
+          switch (a.kind) {
+            case 1:
+              use(a.x);
+          }
+        `,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: "y = o.a.x;\nuse(o.a.y);",
+          output: "const a = o.a;\ny = a.x;\nuse(a.y);",
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: "foo(); use(o.a.x, o.a.y);",
+          output: "foo(); const a = o.a; use(a.x, a.y);",
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        // Logical assignments only conditionally evaluate their value
+        {
+          code: "x ||= o.a.x;\nuse(o.a.y);",
+          output: null,
+          errors: [
+            {
+              messageId: "repeatedAccess",
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: "const a = o.a;\nx ||= a.x;\nuse(a.y);",
+                },
+              ],
+            },
+          ],
+        },
+        // Non-null assertions are kept, reserved words get a suffix
+        {
+          code: "use(o!.a!.default, o!.a!.default);",
+          output: [
+            "const a = o!.a;\nuse(a!.default, a!.default);",
+            "const a = o!.a;\nconst defaultValue = a!.default;\nuse(defaultValue, defaultValue);",
+          ],
+          errors: [
+            { messageId: "repeatedAccess" },
+            { messageId: "repeatedAccess" },
+          ],
+        },
+        {
+          code: `
+          class A {
+            m() {
+              use(this.p.x);
+              use(this.p.y);
+            }
+          }
+        `,
+          output: null,
+          errors: [
+            {
+              messageId: "repeatedAccess",
+              // use() might modify this.p
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          class A {
+            m() {
+              const p = this.p;
+              use(p.x);
+              use(p.y);
+            }
+          }
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Calls of functions declared in this module might modify module-level variables
+        {
+          code: `
+          class State {
+            b: Inner = new Inner();
+          }
+          class Inner {
+            c: i32 = 0;
+          }
+          let state = new State();
+          function reset(): void {
+            state = new State();
+          }
+          const x = state.b.c;
+          reset();
+          const y = state.b.c;
+        `,
+          output: null,
+          errors: [
+            {
+              messageId: "repeatedAccess",
+              data: { chain: "state.b" },
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          class State {
+            b: Inner = new Inner();
+          }
+          class Inner {
+            c: i32 = 0;
+          }
+          let state = new State();
+          function reset(): void {
+            state = new State();
+          }
+          const b = state.b;
+          const x = b.c;
+          reset();
+          const y = b.c;
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "repeatedAccess",
+              data: { chain: "state.b.c" },
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          class State {
+            b: Inner = new Inner();
+          }
+          class Inner {
+            c: i32 = 0;
+          }
+          let state = new State();
+          function reset(): void {
+            state = new State();
+          }
+          const c = state.b.c;
+          const x = c;
+          reset();
+          const y = c;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Library functions can't reach module-level variables
+        {
+          code: `
+          class Point {
+            x: f64 = 0;
+          }
+          let origin = new Point();
+          const a = Math.abs(origin.x);
+          const b = Math.abs(origin.x);
+        `,
+          output: `
+          class Point {
+            x: f64 = 0;
+          }
+          let origin = new Point();
+          const x = origin.x;
+          const a = Math.abs(x);
+          const b = Math.abs(x);
+        `,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        // Callbacks passed to library functions might
+        {
+          code: `
+          let values: i32[] = [1, 2];
+          const n = values.length;
+          [3].forEach((value: i32) => {});
+          const m = values.length;
+        `,
+          output: null,
+          errors: [
+            {
+              messageId: "repeatedAccess",
+              suggestions: [
+                {
+                  messageId: "extractVariable",
+                  output: `
+          let values: i32[] = [1, 2];
+          const length = values.length;
+          const n = length;
+          [3].forEach((value: i32) => {});
+          const m = length;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // No fix for expression bodies or bases declared later
+        {
+          code: "const f = (o) => o.a.x + o.a.y;",
+          output: null,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+        {
+          code: "a.b.x; const a = foo(), v = a.b.c;",
+          output: null,
+          errors: [{ messageId: "repeatedAccess" }],
+        },
+      ],
+    });
+  });
+
+  it("validates the configuration options of no-repeated-member-access rule", () => {
+    ruleTester.run("no-repeated-member-access", noRepeatedMemberAccess, {
+      valid: [
+        // minOccurrences: two accesses are not enough
+        {
+          code: "const v = o.a.x + o.a.y;",
+          options: [{ minOccurrences: 3 }],
+        },
+        // minOccurrences: counts the accesses along one code path
+        {
+          code: "const q = o.a.x + (cond ? o.a.y : o.a.z);",
+          options: [{ minOccurrences: 3 }],
+        },
+        // minDepth: chains with a single property access are not reported
+        {
+          code: "const v = this.x + this.x;",
+          options: [{ minDepth: 2 }],
+        },
+        // ignore: base identifiers
+        {
+          code: "const v = Math.PI * Math.PI + this.x + this.x;",
+          options: [{ ignore: ["Math", "this"] }],
+        },
+        // ignore: patterns where * matches one property
+        {
+          code: "const v = o.length + o.length + p.q.length + p.q.length;",
+          options: [{ ignore: ["*.length", "p.q", "p.*.length"] }],
+        },
+        // loopsOnly: accesses outside loops are not counted
+        {
+          code: `
+          const v = o.a.x + o.a.y;
+          for (let i = 0; i < n; i++) {
+            sum += o.a.x;
+          }
+          `,
+          options: [{ loopsOnly: true }],
+        },
+      ],
+      invalid: [
+        {
+          code: "const v = o.a.x + o.a.y + o.a.z;",
+          output: "const a = o.a;\nconst v = a.x + a.y + a.z;",
+          options: [{ minOccurrences: 3 }],
+          errors: [{ messageId: "repeatedAccess", data: { chain: "o.a" } }],
+        },
+        {
+          code: "const v = this.x + this.x + o.a.b + o.a.b;",
+          output: "const b = o.a.b;\nconst v = this.x + this.x + b + b;",
+          options: [{ minDepth: 2 }],
+          errors: [{ messageId: "repeatedAccess", data: { chain: "o.a.b" } }],
+        },
+        {
+          code: "const v = Math.PI * Math.PI + o.x + o.x;",
+          output: "const x = o.x;\nconst v = Math.PI * Math.PI + x + x;",
+          options: [{ ignore: ["Math", "*.length"] }],
+          errors: [{ messageId: "repeatedAccess", data: { chain: "o.x" } }],
+        },
+        {
+          code: `
+          for (let i = 0; i < n; i++) {
+            sum += o.a.x + o.a.y;
+          }
+          const v = p.a + p.a;
+          `,
+          output: `
+          for (let i = 0; i < n; i++) {
+            const a = o.a;
+            sum += a.x + a.y;
+          }
+          const v = p.a + p.a;
+          `,
+          options: [{ loopsOnly: true }],
+          errors: [{ messageId: "repeatedAccess", data: { chain: "o.a" } }],
+        },
+        {
+          code: `
+          let i = 0;
+          while (i < n) {
+            i += o.a.x;
+            do {
+              i += o.b.x + o.b.y;
+            } while (i < n);
+          }
+          for (const x of xs) {
+            use(x.c.d, x.c.e);
+          }
+          for (const key in o) {
+            use(o.e.f, o.e.g);
+          }
+          `,
+          output: `
+          let i = 0;
+          while (i < n) {
+            i += o.a.x;
+            do {
+              const b = o.b;
+              i += b.x + b.y;
+            } while (i < n);
+          }
+          for (const x of xs) {
+            const c = x.c;
+            use(c.d, c.e);
+          }
+          for (const key in o) {
+            const e = o.e;
+            use(e.f, e.g);
+          }
+          `,
+          options: [{ loopsOnly: true }],
+          errors: [
+            { messageId: "repeatedAccess", data: { chain: "o.b" } },
+            { messageId: "repeatedAccess", data: { chain: "x.c" } },
+            { messageId: "repeatedAccess", data: { chain: "o.e" } },
+          ],
+        },
       ],
     });
   });
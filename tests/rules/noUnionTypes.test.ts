@@ -0,0 +1,78 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noUnionTypes from "../../plugins/rules/noUnionTypes.js";
+
+describe("Rule: no-union-types", () => {
+  const ruleTester = createRuleTester();
+
+  it("allows only a reference type with null", () => {
+    ruleTester.run("no-union-types", noUnionTypes, {
+      valid: [
+        // Valid case: nullable reference types
+        `
+        class Node {}
+        let name: string | null = null;
+        let next: Node | null = null;
+        let values: Array<i32> | null = null;
+        let bytes: StaticArray<u8> | null = null;
+        `,
+        // Valid case: type parameters may be reference types
+        `
+        function first<T>(items: T[]): T | null {
+          return null;
+        }
+        `,
+      ],
+      invalid: [
+        // Invalid case: unions of several types and literal types
+        {
+          code: `
+        let id: string | i32 = 0;
+        let mode: "read" | "write" = "read";
+        let level: 1 | null = null;
+        let maybe: string | null | undefined = null;
+        `,
+          errors: [
+            { messageId: "unsupportedUnion", line: 2 },
+            { messageId: "unsupportedUnion", line: 3 },
+            { messageId: "unsupportedUnion", line: 4 },
+            { messageId: "unsupportedUnion", line: 5 },
+          ],
+        },
+        // Invalid case: nullable value types
+        {
+          code: `
+        let count: i32 | null = null;
+        let flag: bool | null = null;
+        function ratio(): null | f64 {
+          return 0.5;
+        }
+        let counts: (u8 | null)[] = [];
+        `,
+          errors: [
+            {
+              messageId: "nullablePrimitive",
+              data: { type: "i32" },
+              line: 2,
+            },
+            {
+              messageId: "nullablePrimitive",
+              data: { type: "bool" },
+              line: 3,
+            },
+            {
+              messageId: "nullablePrimitive",
+              data: { type: "f64" },
+              line: 4,
+            },
+            {
+              messageId: "nullablePrimitive",
+              data: { type: "u8" },
+              line: 7,
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
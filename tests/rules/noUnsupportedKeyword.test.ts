@@ -34,4 +34,55 @@ describe("Rule: no-unsupported-keyword", () => {
       ],
     });
   });
+
+  it("validates feature types against settings.assemblyscript", () => {
+    ruleTester.run("no-unsupported-keyword", noUnsupportedKeyword, {
+      valid: [
+        // Valid case: features are unknown without settings
+        "let v: v128 = v128.splat<i32>(0);",
+        // Valid case: simd is enabled
+        {
+          code: "let v: v128 = v128.splat<i32>(0);",
+          settings: { assemblyscript: { features: ["simd"] } },
+        },
+        // Valid case: reference types are enabled
+        {
+          code: "declare function call(f: funcref, e: externref): void;",
+          settings: {
+            assemblyscript: {
+              features: ["reference-types"],
+            },
+          },
+        },
+      ],
+      invalid: [
+        // Invalid case: simd is not enabled
+        {
+          code: "let v: v128 = v128.splat<i32>(0);",
+          settings: { assemblyscript: { features: ["threads"] } },
+          errors: [
+            {
+              messageId: "featureDisabled",
+              data: { name: "v128", feature: "simd" },
+            },
+          ],
+        },
+        // Invalid case: reference types are not enabled
+        {
+          code: "declare function call(f: funcref): anyref;",
+          settings: { assemblyscript: { features: [] } },
+          errors: [
+            {
+              messageId: "featureDisabled",
+              data: { name: "funcref", feature: "reference-types" },
+            },
+            {
+              messageId: "featureDisabled",
+              data: { name: "anyref", feature: "reference-types" },
+            },
+          ],
+        },
+      ],
+    });
+  });
 });
@@ -0,0 +1,206 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import noUnsupportedSyntax from "../../plugins/rules/noUnsupportedSyntax.js";
+
+describe("Rule: no-unsupported-syntax", () => {
+  const ruleTester = createRuleTester();
+
+  it("validates all test cases for no-unsupported-syntax rule", () => {
+    ruleTester.run("no-unsupported-syntax", noUnsupportedSyntax, {
+      valid: [
+        // Valid case: plain property access and assignment
+        `
+        const x = obj.a.b;
+        obj.value = x ?? 0;
+        `,
+        // Valid case: for...of loop and class accessors
+        `
+        class Box {
+          private _v: i32 = 0;
+          get v(): i32 { return this._v; }
+          set v(value: i32) { this._v = value; }
+        }
+        for (const item of items) {
+          process(item);
+        }
+        `,
+        // Valid case: object literal with plain values
+        `
+        const point = { x: 1, y: 2 };
+        `,
+        // Valid case: a local variable named Symbol
+        `
+        class Symbol { static of(): Symbol { return new Symbol(); } }
+        const s = Symbol.of();
+        `,
+      ],
+      invalid: [
+        // Invalid case: object and array destructuring, reported once per pattern
+        {
+          code: `
+        const { a, b: [c, d] } = obj;
+        const [first, ...rest] = values;
+        function f({ x }: Point): void {}
+        `,
+          errors: [
+            { messageId: "destructuring", line: 2 },
+            { messageId: "destructuring", line: 3 },
+            { messageId: "destructuring", line: 4 },
+          ],
+        },
+        // Invalid case: optional chaining and nullish assignment
+        {
+          code: `
+        const v = obj?.a.b;
+        call?.();
+        obj.cache ??= create();
+        `,
+          errors: [
+            { messageId: "optionalChaining", line: 2 },
+            { messageId: "optionalChaining", line: 3 },
+            { messageId: "nullishAssignment", line: 4 },
+          ],
+        },
+        // Invalid case: for...in and delete
+        {
+          code: `
+        for (const key in obj) {
+          delete obj[key];
+        }
+        `,
+          errors: [{ messageId: "forIn" }, { messageId: "delete" }],
+        },
+        // Invalid case: getters and setters on object literals
+        {
+          code: `
+        const o = {
+          get value(): i32 { return 1; },
+          set value(v: i32) {},
+        };
+        `,
+          errors: [
+            { messageId: "objectAccessor" },
+            { messageId: "objectAccessor" },
+          ],
+        },
+        // Invalid case: async functions, top-level await and for await
+        {
+          code: `
+        async function load(): Promise<void> {
+          await fetch();
+          for await (const chunk of stream) {}
+        }
+        const run = async () => {};
+        await load();
+        for await (const chunk of stream) {}
+        `,
+          errors: [
+            { messageId: "async", line: 2 },
+            { messageId: "async", line: 6 },
+            { messageId: "async", line: 7 },
+            { messageId: "async", line: 8 },
+          ],
+        },
+        // Invalid case: generators
+        {
+          code: `
+        function* range(n: i32) {
+          for (let i = 0; i < n; i++) yield i;
+        }
+        class Tree { *nodes() {} }
+        `,
+          errors: [
+            { messageId: "generator", line: 2 },
+            { messageId: "generator", line: 5 },
+          ],
+        },
+        // Invalid case: try/catch/finally
+        {
+          code: `
+        try {
+          risky();
+        } catch (e) {
+          recover();
+        } finally {
+          cleanup();
+        }
+        `,
+          errors: [{ messageId: "tryCatch" }],
+        },
+        // Invalid case: symbol type, Symbol() calls and well-known symbols
+        {
+          code: `
+        let key: symbol = Symbol("key");
+        class List { [Symbol.iterator]() {} }
+        `,
+          errors: [
+            { messageId: "symbol", column: 18 },
+            { messageId: "symbol", column: 27 },
+            { messageId: "symbol", line: 3 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("validates the allow option and feature settings", () => {
+    ruleTester.run("no-unsupported-syntax", noUnsupportedSyntax, {
+      valid: [
+        // Valid case: try/catch allowed when compiling with exception handling
+        {
+          code: `
+        try {
+          risky();
+        } catch (e) {
+          recover();
+        }
+        `,
+          options: [{ allow: ["tryCatch"] }],
+        },
+        // Valid case: several constructs allowed
+        {
+          code: `
+        const v = obj?.a;
+        obj.cache ??= create();
+        `,
+          options: [{ allow: ["optionalChaining", "nullishAssignment"] }],
+        },
+        // Valid case: try/catch allowed by the exception-handling feature
+        {
+          code: `
+        try {
+          risky();
+        } catch (e) {
+          recover();
+        }
+        `,
+          settings: {
+            assemblyscript: { features: ["exception-handling"] },
+          },
+        },
+      ],
+      invalid: [
+        // Invalid case: constructs that are not allowed are still reported
+        {
+          code: `
+        try {
+          const { a } = obj;
+        } catch (e) {}
+        `,
+          options: [{ allow: ["tryCatch"] }],
+          errors: [{ messageId: "destructuring" }],
+        },
+        // Invalid case: other features don't allow try/catch
+        {
+          code: `
+        try {
+          risky();
+        } catch (e) {}
+        `,
+          settings: { assemblyscript: { features: ["simd", "threads"] } },
+          errors: [{ messageId: "tryCatch" }],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,564 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import preferNativeNumericTypes from "../../plugins/rules/preferNativeNumericTypes.js";
+
+describe("Rule: prefer-native-numeric-types", () => {
+  const ruleTester = createRuleTester();
+
+  it("reports number annotations with native type suggestions", () => {
+    ruleTester.run("prefer-native-numeric-types", preferNativeNumericTypes, {
+      valid: [
+        // Valid case: native numeric types
+        `
+        let count: i32 = 0;
+        let ratio: f64 = 0.5;
+        const bytes: StaticArray<u8> = new StaticArray<u8>(4);
+        function mask(value: u32): u32 {
+          return value & 0xff;
+        }
+        `,
+        // Valid case: number as a value is not a type annotation
+        `
+        const value = Number.MAX_VALUE;
+        `,
+      ],
+      invalid: [
+        // Invalid case: loop counters, declared in the loop head or incremented
+        {
+          code: `
+        for (let i: number = 0; i < 10; i++) {}
+        let n: number = 0;
+        while (n < 10) n++;
+        `,
+          errors: [
+            {
+              messageId: "preferIntegerType",
+              data: { usage: "a loop counter", type: "i32" },
+              line: 2,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        for (let i: i32 = 0; i < 10; i++) {}
+        let n: number = 0;
+        while (n < 10) n++;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "u32" },
+                  output: `
+        for (let i: u32 = 0; i < 10; i++) {}
+        let n: number = 0;
+        while (n < 10) n++;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        for (let i: f64 = 0; i < 10; i++) {}
+        let n: number = 0;
+        while (n < 10) n++;
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "preferIntegerType",
+              data: { usage: "a loop counter", type: "i32" },
+              line: 3,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        for (let i: number = 0; i < 10; i++) {}
+        let n: i32 = 0;
+        while (n < 10) n++;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "u32" },
+                  output: `
+        for (let i: number = 0; i < 10; i++) {}
+        let n: u32 = 0;
+        while (n < 10) n++;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        for (let i: number = 0; i < 10; i++) {}
+        let n: f64 = 0;
+        while (n < 10) n++;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Invalid case: array indices and bitwise operands
+        {
+          code: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+          errors: [
+            {
+              messageId: "preferIntegerType",
+              data: { usage: "an array index", type: "i32" },
+              line: 2,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        function at(values: i32[], index: i32): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "u32" },
+                  output: `
+        function at(values: i32[], index: u32): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        function at(values: i32[], index: f64): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "preferIntegerType",
+              data: { usage: "a bitwise operand", type: "i32" },
+              line: 5,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: i32, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "u32" },
+                  output: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: u32, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: f64, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: number = 0;
+        flags |= 4;
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "preferIntegerType",
+              data: { usage: "a bitwise operand", type: "i32" },
+              line: 8,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: i32 = 0;
+        flags |= 4;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "u32" },
+                  output: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: u32 = 0;
+        flags |= 4;
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        function at(values: i32[], index: number): i32 {
+          return values[index];
+        }
+        function hash(h: number, c: i32): i32 {
+          return (h << 5) ^ c;
+        }
+        let flags: f64 = 0;
+        flags |= 4;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Invalid case: unsigned shifts suggest u32 first
+        {
+          code: `
+        function half(v: number): u32 {
+          return v >>> 1;
+        }
+        `,
+          errors: [
+            {
+              messageId: "preferIntegerType",
+              data: { usage: "a bitwise operand", type: "u32" },
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "u32" },
+                  output: `
+        function half(v: u32): u32 {
+          return v >>> 1;
+        }
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        function half(v: i32): u32 {
+          return v >>> 1;
+        }
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        function half(v: f64): u32 {
+          return v >>> 1;
+        }
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Invalid case: float values only suggest f64
+        {
+          code: `
+        let x: number = 0.5;
+        let y: number;
+        y = -1.5;
+        for (let t: number = 0; t < 1; t += 0.1) {}
+        `,
+          errors: [
+            {
+              messageId: "preferNativeType",
+              line: 2,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        let x: f64 = 0.5;
+        let y: number;
+        y = -1.5;
+        for (let t: number = 0; t < 1; t += 0.1) {}
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "preferNativeType",
+              line: 3,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        let x: number = 0.5;
+        let y: f64;
+        y = -1.5;
+        for (let t: number = 0; t < 1; t += 0.1) {}
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "preferNativeType",
+              line: 5,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        let x: number = 0.5;
+        let y: number;
+        y = -1.5;
+        for (let t: f64 = 0; t < 1; t += 0.1) {}
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // Invalid case: annotations without usage information
+        {
+          code: `
+        const list: Array<number> = [];
+        class Point {
+          x: number = 0;
+        }
+        `,
+          errors: [
+            {
+              messageId: "preferNativeType",
+              line: 2,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        const list: Array<f64> = [];
+        class Point {
+          x: number = 0;
+        }
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        const list: Array<i32> = [];
+        class Point {
+          x: number = 0;
+        }
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "preferNativeType",
+              line: 4,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        const list: Array<number> = [];
+        class Point {
+          x: f64 = 0;
+        }
+        `,
+                },
+                {
+                  messageId: "useType",
+                  data: { type: "i32" },
+                  output: `
+        const list: Array<number> = [];
+        class Point {
+          x: i32 = 0;
+        }
+        `,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reports implicit float/int mixing", () => {
+    ruleTester.run("prefer-native-numeric-types", preferNativeNumericTypes, {
+      valid: [
+        // Valid case: lossless conversions to the wider type
+        `
+        let a: i32 = 1;
+        let b: f64 = 2.0;
+        let s: i16 = 3;
+        let f: f32 = 1.5;
+        const r1 = a * b;
+        const r2 = s + f;
+        const r3 = a * 0.5;
+        const r4 = f * 2.5;
+        b += a;
+        f *= 2;
+        if (a < b) {}
+        `,
+        // Valid case: explicit conversions
+        `
+        let a: i64 = 1;
+        let b: f64 = 2.0;
+        const r1 = <f64>a * b;
+        const r2 = f64(a) * b;
+        const r3 = (a as f64) / b;
+        `,
+        // Valid case: unknown types and integers of different size
+        `
+        let a: i64 = 1;
+        let c: u8 = 2;
+        const r1 = a + c;
+        const r2 = unknown * 0.5;
+        const r3 = !a;
+        `,
+        // Valid case: lengths are i32 in AssemblyScript
+        `
+        function count(items: i32[], text: string): i32 {
+          let n: i32 = 0;
+          n += items.length;
+          return n * text.length;
+        }
+        `,
+      ],
+      invalid: [
+        // Invalid case: integers not fitting into the significand of the float
+        {
+          code: `
+        let a: i64 = 1;
+        let b: f64 = 2.0;
+        let c: i32 = 3;
+        let f: f32 = 1.5;
+        const r1 = a * b;
+        const r2 = c + f;
+        const r3 = a * 0.5;
+        if (a < b) {}
+        `,
+          errors: [
+            { messageId: "mixedTypes", data: { left: "i64", right: "f64" } },
+            { messageId: "mixedTypes", data: { left: "i32", right: "f32" } },
+            { messageId: "mixedTypes", data: { left: "i64", right: "f64" } },
+            { messageId: "mixedTypes", data: { left: "i64", right: "f64" } },
+          ],
+        },
+        // Invalid case: compound assignments storing a float in an integer
+        {
+          code: `
+        let c: i32 = 3;
+        let f: f32 = 1.5;
+        c += 0.5;
+        f -= c;
+        `,
+          errors: [
+            { messageId: "mixedTypes", data: { left: "i32", right: "f64" } },
+            { messageId: "mixedTypes", data: { left: "f32", right: "i32" } },
+          ],
+        },
+        // Invalid case: types of calls, elements, properties and inferred variables
+        {
+          code: `
+        function big(): i64 {
+          return 1;
+        }
+        class Sample {
+          time: u64 = 0;
+          values: StaticArray<f32> = new StaticArray<f32>(2);
+        }
+        const sample = new Sample();
+        const count = 3;
+        const scale: number = 0.5;
+        const r1 = big() / 2.0;
+        const r2 = sample.values[0] + count;
+        const r3 = sample.time * (scale + 1);
+        const r4 = sample!.time - -scale;
+        `,
+          errors: [
+            {
+              messageId: "preferNativeType",
+              line: 11,
+              suggestions: [
+                {
+                  messageId: "useType",
+                  data: { type: "f64" },
+                  output: `
+        function big(): i64 {
+          return 1;
+        }
+        class Sample {
+          time: u64 = 0;
+          values: StaticArray<f32> = new StaticArray<f32>(2);
+        }
+        const sample = new Sample();
+        const count = 3;
+        const scale: f64 = 0.5;
+        const r1 = big() / 2.0;
+        const r2 = sample.values[0] + count;
+        const r3 = sample.time * (scale + 1);
+        const r4 = sample!.time - -scale;
+        `,
+                },
+              ],
+            },
+            { messageId: "mixedTypes", data: { left: "i64", right: "f64" } },
+            { messageId: "mixedTypes", data: { left: "f32", right: "i32" } },
+            { messageId: "mixedTypes", data: { left: "u64", right: "f64" } },
+            { messageId: "mixedTypes", data: { left: "u64", right: "f64" } },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import preferStaticArray from "../../plugins/rules/preferStaticArray.js";
+
+describe("Rule: prefer-static-array", () => {
+  const ruleTester = createRuleTester();
+
+  it("suggests StaticArray for local arrays of fixed length", () => {
+    ruleTester.run("prefer-static-array", preferStaticArray, {
+      valid: [
+        // The length changes
+        `
+          const values: i32[] = [1, 2];
+          values.push(3);
+        `,
+        `
+          const values = new Array<i32>(4);
+          values.length = 8;
+        `,
+        `
+          let values = new Array<i32>(4);
+          values.length++;
+        `,
+        // Writing past the end grows an Array, but traps on a StaticArray
+        `
+          let values: Array<f64> = new Array(2);
+          values = [];
+          values[0] += 1;
+        `,
+        `
+          const values = new Array<i32>();
+          values[0] = 1;
+        `,
+        `
+          const values = new Array<i32>(size);
+          values[i] = 1;
+        `,
+        `
+          const values = new Array<i32>(size);
+          for (let i = 0; i < other.length; i++) {
+            values[i] = 1;
+          }
+        `,
+        // Passed on or aliased, other code may resize it
+        `
+          const values: i32[] = [1, 2];
+          consume(values);
+        `,
+        `
+          const values: i32[] = [1, 2];
+          const other = values;
+        `,
+        // Assigned an array of unknown length
+        `
+          let values: i32[] = [1, 2];
+          values = load();
+        `,
+        `
+          let values: i32[] = [1, 2];
+          values += other;
+        `,
+        `const values: i32[] = [...other];`,
+        `const values: i32[] = load();`,
+        // Already static, or not an array
+        `const values: StaticArray<i32> = [1, 2];`,
+        `const values: Set<i32> = new Set<i32>();`,
+        // The element type is unknown
+        `const values = [1, 2];`,
+        `const values = new Array(4);`,
+        // Other modules may resize it
+        `export const values: i32[] = [1, 2];`,
+        `declare const values: i32[];`,
+      ],
+      invalid: [
+        {
+          code: `
+            const table: i32[] = [1, 2, 3];
+            const last = table[table.length - 1];
+          `,
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              data: { name: "table", type: "i32" },
+              suggestions: [
+                {
+                  messageId: "useStaticArray",
+                  data: { name: "table", type: "i32" },
+                  output: `
+            const table: StaticArray<i32> = [1, 2, 3];
+            const last = table[table.length - 1];
+          `,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+            function fill(size: i32): void {
+              const buffer = new Array<u8>(size);
+              for (let i = 0; i < buffer.length; i++) {
+                buffer[i] = <u8>i;
+              }
+            }
+          `,
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              suggestions: [
+                {
+                  messageId: "useStaticArray",
+                  output: `
+            function fill(size: i32): void {
+              const buffer = new StaticArray<u8>(size);
+              for (let i = 0; i < buffer.length; i++) {
+                buffer[i] = <u8>i;
+              }
+            }
+          `,
+                },
+              ],
+            },
+          ],
+        },
+        // Reassigned arrays are converted as well
+        {
+          code: `
+            let values: Array<f64> = new Array(2);
+            values = [0, 0];
+            values[1] += 1;
+          `,
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              suggestions: [
+                {
+                  messageId: "useStaticArray",
+                  output: `
+            let values: StaticArray<f64> = new StaticArray<f64>(2);
+            values = [0, 0];
+            values[1] += 1;
+          `,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+            let values: i32[];
+            values = new Array<i32>();
+          `,
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              suggestions: [
+                {
+                  messageId: "useStaticArray",
+                  output: `
+            let values: StaticArray<i32>;
+            values = new StaticArray<i32>(0);
+          `,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("suggests StaticArray for private fields of fixed length", () => {
+    ruleTester.run("prefer-static-array", preferStaticArray, {
+      valid: [
+        // Public fields may be resized from outside the class
+        `
+          class Buffer {
+            data: u8[] = new Array<u8>(4);
+          }
+        `,
+        `
+          class Buffer {
+            private static cache: u8[] = new Array<u8>(4);
+          }
+        `,
+        `
+          class Buffer {
+            private data: u8[] = new Array<u8>(4);
+            grow(): void {
+              this.data.push(0);
+            }
+          }
+        `,
+        `
+          class Buffer {
+            private data: u8[] = new Array<u8>();
+            set(value: u8): void {
+              this.data[0] = value;
+            }
+          }
+        `,
+        // Fields of other instances can't be tracked
+        `
+          class Buffer {
+            private data: u8[] = new Array<u8>(4);
+            copy(other: Buffer): void {
+              other.data[0] = this.data[0];
+            }
+          }
+        `,
+        `
+          class Buffer {
+            private data: u8[] = load();
+          }
+        `,
+        `
+          class Buffer {
+            #data: u8[] = new Array<u8>(4);
+            get data(): u8[] {
+              return this.#data;
+            }
+          }
+        `,
+      ],
+      invalid: [
+        {
+          code: `
+            class Buffer {
+              private data: u8[];
+              constructor(size: i32) {
+                this.data = new Array<u8>(size);
+              }
+              get(index: i32): u8 {
+                return this.data[index];
+              }
+              get size(): i32 {
+                return this.data.length;
+              }
+            }
+          `,
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              data: { name: "data", type: "u8" },
+              suggestions: [
+                {
+                  messageId: "useStaticArray",
+                  data: { name: "data", type: "u8" },
+                  output: `
+            class Buffer {
+              private data: StaticArray<u8>;
+              constructor(size: i32) {
+                this.data = new StaticArray<u8>(size);
+              }
+              get(index: i32): u8 {
+                return this.data[index];
+              }
+              get size(): i32 {
+                return this.data.length;
+              }
+            }
+          `,
+                },
+              ],
+            },
+          ],
+        },
+        // Accesses of the nested class belong to its own fields
+        {
+          code: `
+            class Table {
+              #rows = new Array<i32>(8);
+              first(): i32 {
+                class Row {
+                  rows: i32[] = [];
+                  add(): void {
+                    this.rows.push(1);
+                  }
+                }
+                return this.#rows[0];
+              }
+            }
+          `,
+          errors: [
+            {
+              messageId: "preferStaticArray",
+              data: { name: "#rows", type: "i32" },
+              suggestions: [
+                {
+                  messageId: "useStaticArray",
+                  data: { name: "#rows", type: "i32" },
+                  output: `
+            class Table {
+              #rows = new StaticArray<i32>(8);
+              first(): i32 {
+                class Row {
+                  rows: i32[] = [];
+                  add(): void {
+                    this.rows.push(1);
+                  }
+                }
+                return this.#rows[0];
+              }
+            }
+          `,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
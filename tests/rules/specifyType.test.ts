@@ -45,17 +45,474 @@ describe("Rule: specifyType", () => {
         // Floating point literals require type annotations
         {
           code: "const price = 19.99;",
-          errors: [{ messageId: "missingType" }],
+          output: "const price: f64 = 19.99;",
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f32" },
+                  output: "const price: f32 = 19.99;",
+                },
+              ],
+            },
+          ],
         },
         {
           code: "const pi = 3.14159;",
-          errors: [{ messageId: "missingType" }],
+          output: "const pi: f64 = 3.14159;",
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f32" },
+                  output: "const pi: f32 = 3.14159;",
+                },
+              ],
+            },
+          ],
+        },
+        // Literals with a decimal point or an exponent are floats, even without a fraction
+        {
+          code: "const scale = 1e3;",
+          output: "const scale: f64 = 1e3;",
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f32" },
+                  output: "const scale: f32 = 1e3;",
+                },
+              ],
+            },
+          ],
         },
 
         // Array literals containing floating point numbers require type annotations
         {
           code: "const scores = [75.5, 82.3, 90.1];",
-          errors: [{ messageId: "missingType" }],
+          output: "const scores: f64[] = [75.5, 82.3, 90.1];",
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f32[]" },
+                  output: "const scores: f32[] = [75.5, 82.3, 90.1];",
+                },
+              ],
+            },
+          ],
+        },
+
+        // Negative float literals and arrays mixing integers and floats
+        {
+          code: "const offset = -0.5;",
+          output: "const offset: f64 = -0.5;",
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f32" },
+                  output: "const offset: f32 = -0.5;",
+                },
+              ],
+            },
+          ],
+        },
+        // Arrays mixing floats with other values can't be fixed
+        {
+          code: "const mixed = [1.5, 'a'];",
+          output: null,
+          errors: [{ messageId: "missingType", suggestions: [] }],
+        },
+        // Destructuring can't be fixed
+        {
+          code: "const [first] = [1.5];",
+          output: null,
+          errors: [{ messageId: "missingType", suggestions: [] }],
+        },
+
+        // Uninitialized variables get a suggestion with the type of later assignments
+        {
+          code: `
+        let count;
+        count = 1;
+        count = 2;
+        `,
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "i32" },
+                  output: `
+        let count: i32;
+        count = 1;
+        count = 2;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+        let ratio;
+        ratio = 1;
+        ratio = 0.5;
+        `,
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f64" },
+                  output: `
+        let ratio: f64;
+        ratio = 1;
+        ratio = 0.5;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+        let root;
+        root = Math.sqrt(2);
+        `,
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f64" },
+                  output: `
+        let root: f64;
+        root = Math.sqrt(2);
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+        let enabled, label;
+        enabled = true;
+        label = "on";
+        `,
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "bool" },
+                  output: `
+        let enabled: bool, label;
+        enabled = true;
+        label = "on";
+        `,
+                },
+              ],
+            },
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "string" },
+                  output: `
+        let enabled, label: string;
+        enabled = true;
+        label = "on";
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+        class Node {}
+        let head;
+        head = null;
+        head = new Node();
+        `,
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "Node | null" },
+                  output: `
+        class Node {}
+        let head: Node | null;
+        head = null;
+        head = new Node();
+        `,
+                },
+              ],
+            },
+          ],
+        },
+        // No suggestion when the assignments disagree or can't be typed
+        {
+          code: `
+        let value;
+        value = 1;
+        value = "x";
+        `,
+          errors: [{ messageId: "missingType", suggestions: [] }],
+        },
+        {
+          code: `
+        let total;
+        total += 1;
+        total = unknownValue;
+        `,
+          errors: [{ messageId: "missingType", suggestions: [] }],
+        },
+        {
+          code: "for (const item of [1, 2]) {}",
+          errors: [{ messageId: "missingType", suggestions: [] }],
+        },
+      ],
+    });
+  });
+
+  it("uses the defaultFloatType option", () => {
+    ruleTester.run("specify-type", specifyType, {
+      valid: [],
+      invalid: [
+        {
+          code: "const mileage = 5.3;",
+          output: "const mileage: f32 = 5.3;",
+          options: [{ defaultFloatType: "f32" }],
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f64" },
+                  output: "const mileage: f64 = 5.3;",
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: `
+        let speed;
+        speed = 2.5;
+        `,
+          options: [{ defaultFloatType: "f32" }],
+          errors: [
+            {
+              messageId: "missingType",
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "f32" },
+                  output: `
+        let speed: f32;
+        speed = 2.5;
+        `,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("validates exportedReturnTypes, parameters and classFields options", () => {
+    ruleTester.run("specify-type", specifyType, {
+      valid: [
+        // Options are disabled by default
+        `
+        export function add(a: i32, b = 1) { return a + b; }
+        class Point { x = 0; }
+        `,
+        {
+          code: `
+        export function add(a: i32, b: i32): i32 { return a + b; }
+        export const mul = (a: i32, b: i32): i32 => a * b;
+        export const neg: (a: i32) => i32 = (a) => -a;
+        function local() {}
+        `,
+          options: [{ exportedReturnTypes: true }],
+        },
+        {
+          code: `
+        function scale(value: f64, factor: f64 = 2.0): f64 { return value * factor; }
+        [1, 2].map((x) => x * 2);
+        `,
+          options: [{ parameters: true }],
+        },
+        {
+          code: `
+        class Point {
+          x: i32 = 0;
+          static origin: Point | null = null;
+          move(): void {}
+        }
+        `,
+          options: [{ classFields: true }],
+        },
+      ],
+      invalid: [
+        {
+          code: `
+        export function add(a: i32, b: i32) { return a + b; }
+        export default function () {}
+        export declare function log(message: string);
+        export const mul = (a: i32, b: i32) => a * b;
+        `,
+          options: [{ exportedReturnTypes: true }],
+          errors: [
+            { messageId: "missingReturnType", line: 2 },
+            { messageId: "missingReturnType", line: 3 },
+            { messageId: "missingReturnType", line: 4 },
+            { messageId: "missingReturnType", line: 5 },
+          ],
+        },
+        {
+          code: `
+        function scale(value: f64, factor = 2.0): f64 { return value * factor; }
+        class Timer {
+          constructor(private interval = 100) {}
+          start(delay = 0): void {}
+        }
+        `,
+          options: [{ parameters: true }],
+          errors: [
+            { messageId: "missingParameterType", line: 2 },
+            { messageId: "missingParameterType", line: 4 },
+            { messageId: "missingParameterType", line: 5 },
+          ],
+        },
+        {
+          code: `
+        class Point {
+          x = 0;
+          y: i32 = 0;
+          static count;
+        }
+        `,
+          options: [{ classFields: true }],
+          errors: [
+            { messageId: "missingFieldType", line: 3 },
+            { messageId: "missingFieldType", line: 5 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("validates the largeIntegers option", () => {
+    ruleTester.run("specify-type", specifyType, {
+      valid: [
+        // Integers in the i32 range, annotated integers and exponent notation floats
+        {
+          code: `
+        const max = 2147483647;
+        const min = -2147483648;
+        const typed: i64 = 3000000000;
+        const exponent: f64 = 1e10;
+        `,
+          options: [{ largeIntegers: true }],
+        },
+        // The option is disabled by default
+        "const big = 3000000000;",
+      ],
+      invalid: [
+        {
+          code: "const big = 3_000_000_000;",
+          options: [{ largeIntegers: true }],
+          errors: [
+            {
+              messageId: "largeInteger",
+              data: { value: "3000000000" },
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "i64" },
+                  output: "const big: i64 = 3_000_000_000;",
+                },
+                {
+                  messageId: "addType",
+                  data: { type: "u64" },
+                  output: "const big: u64 = 3_000_000_000;",
+                },
+              ],
+            },
+          ],
+        },
+        {
+          code: "const low = -3000000000;",
+          options: [{ largeIntegers: true }],
+          errors: [
+            {
+              messageId: "largeInteger",
+              data: { value: "-3000000000" },
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "i64" },
+                  output: "const low: i64 = -3000000000;",
+                },
+              ],
+            },
+          ],
+        },
+        // Hexadecimal literals keep their exact value
+        {
+          code: "const mask = 0xFFFFFFFFFFFFFFFF;",
+          options: [{ largeIntegers: true }],
+          errors: [
+            {
+              messageId: "largeInteger",
+              data: { value: "18446744073709551615" },
+              suggestions: [
+                {
+                  messageId: "addType",
+                  data: { type: "u64" },
+                  output: "const mask: u64 = 0xFFFFFFFFFFFFFFFF;",
+                },
+              ],
+            },
+          ],
+        },
+        // Too large for any integer type, and destructuring can't be annotated
+        {
+          code: `
+        const huge = 99999999999999999999;
+        const [first] = [0, 3000000000];
+        const { length } = 3000000000;
+        `,
+          options: [{ largeIntegers: true }],
+          errors: [
+            { messageId: "largeInteger", line: 2, suggestions: [] },
+            { messageId: "largeInteger", line: 4, suggestions: [] },
+          ],
         },
       ],
     });
@@ -0,0 +1,215 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import validDecorator from "../../plugins/rules/validDecorator.js";
+
+describe("Rule: valid-decorator", () => {
+  const ruleTester = createRuleTester();
+
+  it("checks names, placement and arguments of decorators", () => {
+    ruleTester.run("valid-decorator", validDecorator, {
+      valid: [
+        // Valid case: decorators on the declarations they apply to
+        `
+        @inline
+        function square(x: i32): i32 {
+          return x * x;
+        }
+        @lazy let table: StaticArray<i32> = new StaticArray<i32>(8);
+        @global const VERSION: i32 = 1;
+        @external("env", "log")
+        declare function log(value: i32): void;
+        @external("now")
+        declare function now(): f64;
+        @final
+        class Vec2 {
+          @inline static readonly size: i32 = 8;
+          @operator("+")
+          add(other: Vec2): Vec2 {
+            return this;
+          }
+          @operator.prefix("-")
+          neg(): Vec2 {
+            return this;
+          }
+          @inline
+          length(): f64 {
+            return 0;
+          }
+        }
+        `,
+        // Valid case: unmanaged classes with value and unmanaged fields
+        `
+        @unmanaged
+        class Header {
+          size: usize = 0;
+          flags: u32 = 0;
+        }
+        @unmanaged
+        class Block {
+          header: Header | null = null;
+          next: usize = 0;
+          static name: string = "block";
+        }
+        `,
+        // Valid case: decorators of transforms can be allowed
+        {
+          code: `
+        class Message {
+          @json
+          text: string = "";
+        }
+        `,
+          options: [{ allow: ["json"] }],
+        },
+      ],
+      invalid: [
+        // Invalid case: unknown and misspelled decorators
+        {
+          code: `
+        @inlined
+        function square(x: i32): i32 {
+          return x * x;
+        }
+        class Vec2 {
+          @operators("+")
+          add(other: Vec2): Vec2 {
+            return this;
+          }
+        }
+        `,
+          errors: [
+            {
+              messageId: "unknownDecorator",
+              data: { name: "inlined" },
+              line: 2,
+              column: 9,
+              endColumn: 17,
+            },
+            {
+              messageId: "unknownDecorator",
+              data: { name: "operators" },
+              line: 7,
+            },
+          ],
+        },
+        // Invalid case: decorators on declarations they don't apply to
+        {
+          code: `
+        @inline
+        class Vec2 {
+          @final
+          x: f64 = 0;
+          @operator("+")
+          y: f64 = 0;
+          @lazy
+          length(): f64 {
+            return 0;
+          }
+        }
+        @unmanaged
+        function create(): void {}
+        `,
+          errors: [
+            {
+              messageId: "invalidPlacement",
+              data: {
+                name: "inline",
+                target: "class",
+                targets: "functions, methods, variables, fields",
+              },
+              line: 2,
+            },
+            {
+              messageId: "invalidPlacement",
+              data: { name: "final", target: "field", targets: "classes" },
+              line: 4,
+            },
+            {
+              messageId: "invalidPlacement",
+              data: { name: "operator", target: "field", targets: "methods" },
+              line: 6,
+            },
+            {
+              messageId: "invalidPlacement",
+              data: {
+                name: "lazy",
+                target: "method",
+                targets: "variables, fields",
+              },
+              line: 8,
+            },
+            {
+              messageId: "invalidPlacement",
+              data: {
+                name: "unmanaged",
+                target: "function",
+                targets: "classes",
+              },
+              line: 13,
+            },
+          ],
+        },
+        // Invalid case: missing, extra and non-string arguments
+        {
+          code: `
+        @inline()
+        function square(x: i32): i32 {
+          return x * x;
+        }
+        @external
+        declare function log(value: i32): void;
+        @external("env", "now", "ms")
+        declare function now(): f64;
+        const PLUS = "+";
+        class Vec2 {
+          @operator(PLUS)
+          add(other: Vec2): Vec2 {
+            return this;
+          }
+        }
+        `,
+          errors: [
+            {
+              messageId: "invalidArguments",
+              data: { name: "inline", usage: "@inline" },
+              line: 2,
+            },
+            {
+              messageId: "invalidArguments",
+              data: { name: "external", usage: '@external("module", "name")' },
+              line: 6,
+            },
+            {
+              messageId: "invalidArguments",
+              data: { name: "external", usage: '@external("module", "name")' },
+              line: 8,
+            },
+            {
+              messageId: "invalidArguments",
+              data: { name: "operator", usage: '@operator("+")' },
+              line: 12,
+            },
+          ],
+        },
+        // Invalid case: managed fields of unmanaged classes
+        {
+          code: `
+        class Node {}
+        @unmanaged
+        class Entry {
+          key: string = "";
+          values: i32[] = [];
+          node: Node | null = null;
+          hash: u32 = 0;
+        }
+        `,
+          errors: [
+            { messageId: "managedField", data: { field: "key" }, line: 5 },
+            { messageId: "managedField", data: { field: "values" }, line: 6 },
+            { messageId: "managedField", data: { field: "node" }, line: 7 },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it } from "mocha";
+import { createRuleTester } from "../utils/testUtils.js";
+import validOperatorOverload from "../../plugins/rules/validOperatorOverload.js";
+
+describe("Rule: valid-operator-overload", () => {
+  const ruleTester = createRuleTester();
+
+  it("checks operator tokens and method signatures", () => {
+    ruleTester.run("valid-operator-overload", validOperatorOverload, {
+      valid: [
+        // Valid case: instance and static overloads with matching parameters
+        `
+        class Vec2 {
+          constructor(public x: f64, public y: f64) {}
+          @operator("+")
+          add(other: Vec2): Vec2 {
+            return new Vec2(this.x + other.x, this.y + other.y);
+          }
+          @operator.binary("==")
+          static equals(a: Vec2, b: Vec2): bool {
+            return a.x == b.x && a.y == b.y;
+          }
+          @operator("[]")
+          get(index: i32): f64 {
+            return index == 0 ? this.x : this.y;
+          }
+          @operator("[]=")
+          set(index: i32, value: f64): void {}
+          @operator.prefix("-")
+          neg(): Vec2 {
+            return new Vec2(-this.x, -this.y);
+          }
+          @operator.postfix("++")
+          static inc(value: Vec2): Vec2 {
+            return value;
+          }
+        }
+        `,
+        // Valid case: methods without operator decorators and invalid arguments
+        `
+        class Vec2 {
+          @inline
+          scale(factor: f64, offset: f64): void {}
+          @operator
+          add(other: Vec2): void {}
+        }
+        `,
+      ],
+      invalid: [
+        // Invalid case: tokens which can't be overloaded
+        {
+          code: `
+        class Vec2 {
+          @operator("&&")
+          and(other: Vec2): bool {
+            return true;
+          }
+          @operator.prefix("*")
+          deref(): Vec2 {
+            return this;
+          }
+          @operator.postfix("-")
+          dec(): Vec2 {
+            return this;
+          }
+        }
+        `,
+          errors: [
+            {
+              messageId: "unknownOperator",
+              data: { token: "&&", kind: "binary" },
+              line: 3,
+            },
+            {
+              messageId: "unknownOperator",
+              data: { token: "*", kind: "prefix" },
+              line: 7,
+            },
+            {
+              messageId: "unknownOperator",
+              data: { token: "-", kind: "postfix" },
+              line: 11,
+            },
+          ],
+        },
+        // Invalid case: parameters not matching the operands
+        {
+          code: `
+        class Vec2 {
+          @operator("+")
+          add(a: Vec2, b: Vec2): Vec2 {
+            return a;
+          }
+          @operator("-")
+          static sub(other: Vec2): Vec2 {
+            return other;
+          }
+          @operator("[]=")
+          set(index: i32): void {}
+          @operator.prefix("!")
+          not(other: Vec2): bool {
+            return false;
+          }
+        }
+        `,
+          errors: [
+            {
+              messageId: "wrongParameterCount",
+              data: {
+                token: "+",
+                kind: "binary",
+                method: "instance",
+                expected: "1 parameter",
+                actual: 2,
+              },
+              line: 4,
+            },
+            {
+              messageId: "wrongParameterCount",
+              data: {
+                token: "-",
+                kind: "binary",
+                method: "static",
+                expected: "2 parameters",
+                actual: 1,
+              },
+              line: 8,
+            },
+            {
+              messageId: "wrongParameterCount",
+              data: {
+                token: "[]=",
+                kind: "binary",
+                method: "instance",
+                expected: "2 parameters",
+                actual: 1,
+              },
+              line: 12,
+            },
+            {
+              messageId: "wrongParameterCount",
+              data: {
+                token: "!",
+                kind: "prefix",
+                method: "instance",
+                expected: "0 parameters",
+                actual: 1,
+              },
+              line: 14,
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Test file for the AssemblyScript standard library declarations shipped with the plugin
+ *
+ * Typed rules must see the native types instead of error types, both in the rule
+ * tester and in files linted through the presets.
+ */
+import { clearCaches } from "@typescript-eslint/parser";
+import { ESLintUtils } from "@typescript-eslint/utils";
+import { describe, it } from "mocha";
+import assert from "node:assert";
+import { tmpdir } from "node:os";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Linter } from "eslint";
+import plugin from "../plugins/index.js";
+import { createRuleTester } from "./utils/testUtils.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Report the type the checker sees for every declared variable
+const reportTypes = ESLintUtils.RuleCreator.withoutDocs({
+  meta: {
+    type: "problem",
+    messages: { type: "{{ type }}" },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const services = ESLintUtils.getParserServices(context);
+    const checker = services.program.getTypeChecker();
+    return {
+      VariableDeclarator(node) {
+        const type = services.getTypeAtLocation(node.id);
+        context.report({
+          node,
+          messageId: "type",
+          data: { type: checker.typeToString(type) },
+        });
+      },
+    };
+  },
+});
+
+// Code only reported by no-concat-string when StaticArray<string> is known
+const code = `
+const items = new StaticArray<string>(3);
+let out = items[0];
+for (let i: i32 = 1; i < items.length; i++) {
+  out += items[i];
+}
+`;
+
+// The project service is shared by the whole process, a fresh one sees the files as they are
+function lintWithPreset(filePath: string) {
+  clearCaches();
+  const linter = new Linter({ configType: "flat", cwd: dirname(filePath) });
+  const messages = linter.verify(
+    code,
+    plugin.configs.recommended as Linter.Config[],
+    filePath
+  );
+  for (const message of messages) {
+    assert.ok(message.ruleId, `Unexpected error: ${message.message}`);
+  }
+  const ruleIds = messages.map((message) => message.ruleId);
+  clearCaches();
+  return ruleIds;
+}
+
+describe("AssemblyScript types", () => {
+  const ruleTester = createRuleTester();
+
+  it("resolves native types, StaticArray and builtins in the rule tester", () => {
+    ruleTester.run("report-types", reportTypes, {
+      valid: [],
+      invalid: [
+        {
+          code: `
+        let count: i32 = 0;
+        let flag: bool = true;
+        const items = new StaticArray<string>(2);
+        const first = items[0];
+        const text = changetype<string>(0);
+        const size = sizeof<u64>();
+        `,
+          errors: [
+            { messageId: "type", data: { type: "number" } },
+            { messageId: "type", data: { type: "boolean" } },
+            { messageId: "type", data: { type: "StaticArray<string>" } },
+            { messageId: "type", data: { type: "string" } },
+            { messageId: "type", data: { type: "string" } },
+            { messageId: "type", data: { type: "number" } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("lets typed rules of the presets see the declarations", () => {
+    // Files without a tsconfig.json get the declarations
+    assert.ok(
+      lintWithPreset(resolve(tmpdir(), "types.ts")).includes(
+        "assemblyscript/no-concat-string"
+      )
+    );
+    // Files of a project get its types, without the declarations the element
+    // type is unknown and the concatenation slips through
+    assert.ok(
+      !lintWithPreset(resolve(__dirname, "../../tests/types.test.ts")).includes(
+        "assemblyscript/no-concat-string"
+      )
+    );
+  });
+});
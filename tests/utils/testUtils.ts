@@ -2,6 +2,7 @@ import { RuleTester } from "@typescript-eslint/rule-tester";
 import { describe, it, after } from "mocha";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { assemblyscriptTsconfig } from "../../plugins/utils/types.js";
 
 // Map RuleTester methods to Mocha methods
 RuleTester.afterAll = after;
@@ -23,7 +24,11 @@ export const createRuleTester = () =>
         // Use projectService instead of project to handle temporary files
         projectService: {
           allowDefaultProject: ["*.ts", "*.js"],
+          // Test files get the AssemblyScript standard library declarations
+          defaultProject: assemblyscriptTsconfig,
         },
+        // Parse AssemblyScript decorators on functions and variables
+        allowInvalidAST: true,
       },
     },
   });
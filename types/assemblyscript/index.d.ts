@@ -0,0 +1,154 @@
+/**
+ * Portable declarations of the AssemblyScript standard library
+ *
+ * Injected into the type-checked program of files linted through the presets, so
+ * typed rules see e.g. `i32` as a number and `StaticArray<string>` as an array of
+ * strings instead of error types. Like AssemblyScript's portable declarations, the
+ * native types are aliases of the closest TypeScript type.
+ */
+
+// Native types
+declare type i8 = number;
+declare type i16 = number;
+declare type i32 = number;
+declare type i64 = number;
+declare type isize = number;
+declare type u8 = number;
+declare type u16 = number;
+declare type u32 = number;
+declare type u64 = number;
+declare type usize = number;
+declare type f32 = number;
+declare type f64 = number;
+declare type bool = boolean;
+
+// Conversions, e.g. i32(value), and their limits
+declare function i8(value: unknown): i8;
+declare namespace i8 {
+  export const MIN_VALUE: i8;
+  export const MAX_VALUE: i8;
+}
+declare function i16(value: unknown): i16;
+declare namespace i16 {
+  export const MIN_VALUE: i16;
+  export const MAX_VALUE: i16;
+}
+declare function i32(value: unknown): i32;
+declare namespace i32 {
+  export const MIN_VALUE: i32;
+  export const MAX_VALUE: i32;
+}
+declare function i64(value: unknown): i64;
+declare namespace i64 {
+  export const MIN_VALUE: i64;
+  export const MAX_VALUE: i64;
+}
+declare function isize(value: unknown): isize;
+declare namespace isize {
+  export const MIN_VALUE: isize;
+  export const MAX_VALUE: isize;
+}
+declare function u8(value: unknown): u8;
+declare namespace u8 {
+  export const MIN_VALUE: u8;
+  export const MAX_VALUE: u8;
+}
+declare function u16(value: unknown): u16;
+declare namespace u16 {
+  export const MIN_VALUE: u16;
+  export const MAX_VALUE: u16;
+}
+declare function u32(value: unknown): u32;
+declare namespace u32 {
+  export const MIN_VALUE: u32;
+  export const MAX_VALUE: u32;
+}
+declare function u64(value: unknown): u64;
+declare namespace u64 {
+  export const MIN_VALUE: u64;
+  export const MAX_VALUE: u64;
+}
+declare function usize(value: unknown): usize;
+declare namespace usize {
+  export const MIN_VALUE: usize;
+  export const MAX_VALUE: usize;
+}
+declare function f32(value: unknown): f32;
+declare namespace f32 {
+  export const MIN_VALUE: f32;
+  export const MAX_VALUE: f32;
+  export const EPSILON: f32;
+}
+declare function f64(value: unknown): f64;
+declare namespace f64 {
+  export const MIN_VALUE: f64;
+  export const MAX_VALUE: f64;
+  export const EPSILON: f64;
+}
+declare function bool(value: unknown): bool;
+
+// Fixed-length array, allocated with its elements in a single block
+declare class StaticArray<T> {
+  [key: number]: T;
+  static fromArray<T>(source: Array<T>): StaticArray<T>;
+  constructor(length?: i32);
+  readonly length: i32;
+  at(index: i32): T;
+  includes(value: T, fromIndex?: i32): bool;
+  indexOf(value: T, fromIndex?: i32): i32;
+  lastIndexOf(value: T, fromIndex?: i32): i32;
+  join(separator?: string): string;
+  slice<U extends StaticArray<T> = StaticArray<T>>(start?: i32, end?: i32): U;
+  toString(): string;
+}
+
+// Builtins
+declare function changetype<T>(value: unknown): T;
+declare function sizeof<T>(): usize;
+declare function offsetof<T>(fieldName?: string): usize;
+declare function alignof<T>(): usize;
+declare function idof<T>(): u32;
+declare function nameof<T>(value?: T): string;
+declare function load<T>(ptr: usize, immOffset?: usize): T;
+declare function store<T>(ptr: usize, value: T, immOffset?: usize): void;
+declare function unreachable(): never;
+declare function instantiate<T>(...args: unknown[]): T;
+declare function isInteger<T>(value?: T): bool;
+declare function isFloat<T>(value?: T): bool;
+declare function isSigned<T>(value?: T): bool;
+declare function isReference<T>(value?: T): bool;
+declare function isString<T>(value?: T): bool;
+declare function isArray<T>(value?: T): bool;
+declare function isNullable<T>(value?: T): bool;
+declare function isDefined(expression: unknown): bool;
+declare function isConstant(expression: unknown): bool;
+declare function assert<T>(isTrueish: T, message?: string): T;
+declare function abort(
+  message?: string | null,
+  fileName?: string | null,
+  lineNumber?: u32,
+  columnNumber?: u32
+): never;
+declare function trace(
+  message: string,
+  n?: i32,
+  a0?: f64,
+  a1?: f64,
+  a2?: f64,
+  a3?: f64,
+  a4?: f64
+): void;
+
+// Decorators, e.g. @inline, @external("env", "log") and @operator("+")
+declare function inline(...args: unknown[]): void;
+declare function global(...args: unknown[]): void;
+declare function lazy(...args: unknown[]): void;
+declare function unmanaged(...args: unknown[]): void;
+declare function final(...args: unknown[]): void;
+declare function external(...names: string[]): (...args: unknown[]) => void;
+declare function operator(token: string): (...args: unknown[]) => void;
+declare namespace operator {
+  export function binary(token: string): (...args: unknown[]) => void;
+  export function prefix(token: string): (...args: unknown[]) => void;
+  export function postfix(token: string): (...args: unknown[]) => void;
+}